@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { normalizeBrandKitSettings } from "@/lib/video/brandKit";
+import { deleteBrandKit, getBrandKit, saveBrandKit } from "@/lib/video/brandKitStore";
+
+export const dynamic = "force-dynamic";
+
+// Update a brand kit. Leave out logo or font to keep the current file, send null to remove it.
+export async function PUT(request: Request, { params }: { params: { kitId: string } }) {
+  if (!(await getBrandKit(params.kitId))) {
+    return NextResponse.json(
+      { error: "Brand kit not found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const { logo, font, ...settings } = await request.json();
+    const brandKit = await saveBrandKit(params.kitId, normalizeBrandKitSettings(settings), { logo, font });
+    return NextResponse.json({ brandKit });
+  } catch (error) {
+    console.error("Error updating brand kit:", error);
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { kitId: string } }) {
+  if (!(await deleteBrandKit(params.kitId))) {
+    return NextResponse.json(
+      { error: "Brand kit not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ deleted: true });
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { normalizeBrandKitSettings } from "@/lib/video/brandKit";
+import { listBrandKits, saveBrandKit } from "@/lib/video/brandKitStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ brandKits: await listBrandKits() });
+  } catch (error) {
+    console.error("Error listing brand kits:", error);
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a brand kit from its settings and an optional logo and font upload
+export async function POST(request: Request) {
+  try {
+    const { logo, font, ...settings } = await request.json();
+    const brandKit = await saveBrandKit(null, normalizeBrandKitSettings(settings), { logo, font });
+    return NextResponse.json({ brandKit }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating brand kit:", error);
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 400 }
+    );
+  }
+}
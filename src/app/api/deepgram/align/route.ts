@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { alignScriptToTimings } from "@/lib/voiceover/alignment";
+import { transcribeWordTimings } from "@/lib/voiceover/transcribeTimings";
+
+// Forced alignment of the script against a rendered voiceover
+export async function POST(request: Request) {
+  try {
+    const { script, audioBase64, audioDuration } = await request.json();
+
+    if (!script || !audioBase64) {
+      return NextResponse.json(
+        { error: "Script and audio are required" },
+        { status: 400 }
+      );
+    }
+
+    const recognised = await transcribeWordTimings(Buffer.from(audioBase64, "base64"));
+    console.log(`Aligned script to ${recognised.length} recognised words`);
+
+    return NextResponse.json({
+      alignment: alignScriptToTimings(script, recognised, audioDuration || 0),
+    });
+  } catch (error) {
+    console.error("Error aligning script to the voiceover:", error);
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
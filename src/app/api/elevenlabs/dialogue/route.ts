@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { WordTiming, estimateWordTimings } from "@/lib/voiceover/alignment";
+import { splitIntoChunks, stitchTimings } from "@/lib/voiceover/chunks";
+import { getSpokenScript, layoutDialogue, normalizeLineGap, parseDialogue } from "@/lib/voiceover/dialogue";
+import { getPronunciationLexicon } from "@/lib/voiceover/pronunciationStore";
+import { getTtsProvider, synthesizeChunks } from "@/lib/voiceover/tts";
+import { normalizeTtsProvider } from "@/lib/voiceover/ttsProviders";
+import { normalizeVoiceSettings } from "@/lib/voiceover/voiceSettings";
+import { joinAudio, probeDuration } from "@/lib/video/ffmpeg";
+
+// Render a dialogue script with a voice per speaker and join the lines into one voiceover.
+// Responds like text-to-speech, plus the timing of every line.
+export async function POST(request: Request) {
+  const { script, voices = {}, gap: gapInput, provider: providerInput, settings: settingsInput, userId } = await request.json();
+  const provider = getTtsProvider(normalizeTtsProvider(providerInput));
+
+  if (provider.id === "elevenlabs" && !process.env.ELEVENLABS_API_KEY) {
+    throw new Error(
+      "The ELEVENLABS_API_KEY environment variable is not set. See README.md for instructions on how to set it."
+    );
+  }
+
+  const lines = typeof script === "string" ? parseDialogue(script) : [];
+  const gap = normalizeLineGap(gapInput);
+  const settings = normalizeVoiceSettings(settingsInput);
+
+  if (lines.length === 0) {
+    return NextResponse.json(
+      { error: "The script has no speaker lines, write them as \"NAME: text\"" },
+      { status: 400 }
+    );
+  }
+
+  const tempDir = path.join(process.cwd(), "public", "temp", `dialogue-${randomUUID()}`);
+
+  try {
+    await fs.mkdir(tempDir, { recursive: true });
+
+    // One line at a time, in order. A long line is rendered in chunks, retried like a
+    // narration's, and joined back into the line's recording.
+    const voiceIds: string[] = [];
+    const linePaths: string[] = [];
+    const durations: number[] = [];
+    const alignments: WordTiming[][] = [];
+    const lexicon = typeof userId === "string" ? await getPronunciationLexicon(userId) : [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const voiceId = typeof voices[lines[i].speaker] === "string" ? voices[lines[i].speaker] : provider.defaultVoice;
+      console.log(`Rendering line ${i + 1}/${lines.length} for ${lines[i].speaker}`);
+
+      const chunks = splitIntoChunks(lines[i].text);
+      const results = await synthesizeChunks(provider, chunks, voiceId, { lexicon, settings });
+      const linePath = path.join(tempDir, `line_${i.toString().padStart(3, '0')}.mp3`);
+
+      const chunkPaths: string[] = [];
+      const chunkDurations: number[] = [];
+      for (let j = 0; j < results.length; j++) {
+        const chunkPath = results.length === 1 ? linePath : path.join(tempDir, `line_${i.toString().padStart(3, '0')}_${j}.mp3`);
+        await fs.writeFile(chunkPath, results[j].audio);
+        chunkPaths.push(chunkPath);
+        chunkDurations.push(await probeDuration(chunkPath));
+      }
+      if (results.length > 1) {
+        await joinAudio(chunkPaths, 0, linePath);
+      }
+
+      const duration = results.length === 1 ? chunkDurations[0] : await probeDuration(linePath);
+      const chunkAlignments = results.map((result, j) => result.alignment ?? estimateWordTimings(chunks[j], chunkDurations[j]));
+      voiceIds.push(voiceId);
+      linePaths.push(linePath);
+      durations.push(duration);
+      alignments.push(stitchTimings(chunkDurations, chunkAlignments, 0).alignment);
+    }
+
+    const outputPath = path.join(tempDir, "dialogue.mp3");
+    await joinAudio(linePaths, gap, outputPath);
+
+    const layout = layoutDialogue(lines, voiceIds, durations, alignments, gap);
+    const audio = await fs.readFile(outputPath);
+
+    return NextResponse.json({
+      audioBase64: audio.toString('base64'),
+      alignment: layout.alignment,
+      lines: layout.lines,
+      script: getSpokenScript(lines),
+    }, {
+      status: 200
+    });
+  } catch (error) {
+    console.error("Error rendering dialogue:", error);
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    );
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
@@ -1,55 +1,118 @@
 import { NextResponse } from "next/server";
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { estimateWordTimings } from "@/lib/voiceover/alignment";
+import { layoutChunks, splitIntoChunks, splitIntoParagraphs } from "@/lib/voiceover/chunks";
+import { getPronunciationLexicon } from "@/lib/voiceover/pronunciationStore";
+import { getTtsProvider, synthesizeChunks } from "@/lib/voiceover/tts";
+import { normalizeTtsProvider } from "@/lib/voiceover/ttsProviders";
+import { normalizeVoiceSettings } from "@/lib/voiceover/voiceSettings";
+import { joinAudio, probeDuration } from "@/lib/video/ffmpeg";
 
+// Voice a script. With `paragraphs` every paragraph is rendered on its own and returned as a
+// clip too, so one can be rendered again later; `previousText` and `nextText` are the script
+// around the text when it is such a paragraph.
 export async function POST(request: Request) {
-  if (!process.env.ELEVENLABS_API_KEY) {
+  const {
+    text,
+    voiceId,
+    provider: providerInput,
+    settings: settingsInput,
+    paragraphs = false,
+    previousText,
+    nextText,
+    userId,
+  } = await request.json();
+  const provider = getTtsProvider(normalizeTtsProvider(providerInput));
+
+  if (provider.id === "elevenlabs" && !process.env.ELEVENLABS_API_KEY) {
     throw new Error(
       "The ELEVENLABS_API_KEY environment variable is not set. See README.md for instructions on how to set it."
     );
   }
 
-  const { text, voiceId = "21m00Tcm4TlvDq8ikWAM" } = await request.json();
+  const voice = typeof voiceId === "string" && voiceId ? voiceId : provider.defaultVoice;
+  const settings = normalizeVoiceSettings(settingsInput);
+  const chunks = typeof text !== "string" ? [] : paragraphs ? splitIntoParagraphs(text) : splitIntoChunks(text);
+  // The user's respellings are applied before synthesis, the word timings keep the script's spelling
+  const lexicon = typeof userId === "string" ? await getPronunciationLexicon(userId) : [];
 
-  try {
-    const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "xi-api-key": process.env.ELEVENLABS_API_KEY,
-        },
-        body: JSON.stringify({
-          text,
-          model_id: "eleven_multilingual_v2",
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.75,
-          },
-        }),
-      }
+  if (chunks.length === 0) {
+    return NextResponse.json(
+      { error: "There is no text to voice" },
+      { status: 400 }
     );
+  }
+
+  // Long scripts are rendered in chunks and joined into one MP3, with a map of where each chunk sits
+  const tempDir = path.join(process.cwd(), "public", "temp", `tts-${randomUUID()}`);
+
+  try {
+    const results = await synthesizeChunks(provider, chunks, voice, {
+      previousText: typeof previousText === "string" ? previousText : undefined,
+      nextText: typeof nextText === "string" ? nextText : undefined,
+      lexicon,
+      settings,
+    });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`ElevenLabs API error: ${response.status} ${errorText}`);
+    // The audio together with its word timings
+    if (!paragraphs && results.length === 1 && results[0].alignment) {
+      return NextResponse.json({
+        audioBase64: results[0].audio.toString('base64'),
+        alignment: results[0].alignment
+      }, {
+        status: 200
+      });
     }
 
-    // Get audio data as ArrayBuffer
-    const audioBuffer = await response.arrayBuffer();
-    
-    // Convert to base64 for easier handling in frontend
-    const base64Audio = Buffer.from(audioBuffer).toString('base64');
+    await fs.mkdir(tempDir, { recursive: true });
+
+    const chunkPaths: string[] = [];
+    const durations: number[] = [];
+
+    for (let i = 0; i < results.length; i++) {
+      const chunkPath = path.join(tempDir, `chunk_${i.toString().padStart(3, '0')}.mp3`);
+      await fs.writeFile(chunkPath, results[i].audio);
+
+      chunkPaths.push(chunkPath);
+      durations.push(await probeDuration(chunkPath));
+    }
+
+    // Engines without timings get them spread over each chunk's duration
+    const alignments = results.map((result, i) => result.alignment ?? estimateWordTimings(chunks[i], durations[i]));
+    const layout = layoutChunks(chunks, durations, alignments);
+    const clips = paragraphs
+      ? results.map((result, i) => ({
+          text: chunks[i],
+          audioBase64: result.audio.toString('base64'),
+          alignment: alignments[i],
+          duration: durations[i],
+        }))
+      : undefined;
+
+    let audio = results[0].audio;
+    if (results.length > 1) {
+      const outputPath = path.join(tempDir, "voiceover.mp3");
+      await joinAudio(chunkPaths, 0, outputPath);
+      audio = await fs.readFile(outputPath);
+    }
 
-    return NextResponse.json({ 
-      audioBase64: base64Audio 
-    }, { 
-      status: 200 
+    return NextResponse.json({
+      audioBase64: audio.toString('base64'),
+      alignment: layout.alignment,
+      chunks: layout.chunks,
+      clips,
+    }, {
+      status: 200
     });
   } catch (error) {
-    console.error("Error from ElevenLabs API:", error);
+    console.error(`Error from the ${provider.id} text-to-speech provider:`, error);
     return NextResponse.json(
       { error: (error as Error).message },
       { status: 500 }
     );
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
   }
-} 
\ No newline at end of file
+}
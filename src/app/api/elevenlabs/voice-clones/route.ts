@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { createVoiceClone, deleteVoice } from "@/lib/voiceover/elevenlabs";
+import { listVoiceClones, saveVoiceClone } from "@/lib/voiceover/voiceCloneStore";
+import {
+  CUSTOM_VOICE_CATEGORY,
+  MAX_SAMPLE_BYTES,
+  MIN_SAMPLE_SECONDS,
+  USER_ID_PATTERN,
+  VOICE_CLONE_CONSENT,
+} from "@/lib/voiceover/voiceClones";
+import { Voice } from "@/lib/voiceover/voices";
+import { probeDuration, transcodeAudio } from "@/lib/video/ffmpeg";
+
+export const dynamic = "force-dynamic";
+
+// The user's clones as the voice picker lists them. The consent records and samples are
+// personal data and never leave the server.
+export async function GET(request: Request) {
+  const userId = new URL(request.url).searchParams.get("userId") || "";
+
+  if (!USER_ID_PATTERN.test(userId)) {
+    return NextResponse.json(
+      { error: "Invalid user ID" },
+      { status: 400 }
+    );
+  }
+
+  const clones = await listVoiceClones(userId);
+  return NextResponse.json({
+    clones: clones.map(clone => ({ id: clone.voiceId, name: clone.name, category: CUSTOM_VOICE_CATEGORY })),
+  });
+}
+
+// Make an instant voice clone from a recorded or uploaded sample (a data URL). The speaker's
+// consent is required and kept with the sample.
+export async function POST(request: Request) {
+  if (!process.env.ELEVENLABS_API_KEY) {
+    throw new Error(
+      "The ELEVENLABS_API_KEY environment variable is not set. See README.md for instructions on how to set it."
+    );
+  }
+
+  const { userId, name, sample, consent } = await request.json();
+  const voiceName = typeof name === "string" ? name.trim().slice(0, 80) : "";
+  const speakerName = typeof consent?.speakerName === "string" ? consent.speakerName.trim().slice(0, 80) : "";
+  const match = typeof sample === "string" ? sample.match(/^data:(audio|video)\/[\w+.-]+(;[^,]*)?;base64,(.*)$/) : null;
+
+  if (typeof userId !== "string" || !USER_ID_PATTERN.test(userId)) {
+    return NextResponse.json({ error: "Invalid user ID" }, { status: 400 });
+  }
+  if (!voiceName) {
+    return NextResponse.json({ error: "Give the voice a name" }, { status: 400 });
+  }
+  if (consent?.agreed !== true || !speakerName) {
+    return NextResponse.json({ error: "The speaker's consent is required to clone a voice" }, { status: 400 });
+  }
+  if (!match) {
+    return NextResponse.json({ error: "The sample must be an audio recording" }, { status: 400 });
+  }
+
+  const recording = Buffer.from(match[3], "base64");
+  if (recording.length > MAX_SAMPLE_BYTES) {
+    return NextResponse.json(
+      { error: `The sample must be under ${MAX_SAMPLE_BYTES / 1024 / 1024} MB` },
+      { status: 400 }
+    );
+  }
+
+  const tempDir = path.join(process.cwd(), "public", "temp", `clone-${randomUUID()}`);
+
+  try {
+    await fs.mkdir(tempDir, { recursive: true });
+
+    // Browsers record WebM/Opus or MP4; ElevenLabs gets the same MP3 that is kept
+    const recordingPath = path.join(tempDir, "recording");
+    const samplePath = path.join(tempDir, "sample.mp3");
+    await fs.writeFile(recordingPath, recording);
+    await transcodeAudio(recordingPath, samplePath);
+
+    const duration = await probeDuration(samplePath);
+    if (duration < MIN_SAMPLE_SECONDS) {
+      return NextResponse.json(
+        { error: `The sample is ${duration.toFixed(1)} seconds, record at least ${MIN_SAMPLE_SECONDS} seconds` },
+        { status: 400 }
+      );
+    }
+
+    const sampleData = await fs.readFile(samplePath);
+    const description = `Custom voice of ${speakerName}`;
+    const voiceId = await createVoiceClone(voiceName, description, sampleData);
+
+    // A voice is never left on the account without its consent record
+    let clone;
+    try {
+      clone = await saveVoiceClone({
+        voiceId,
+        userId,
+        name: voiceName,
+        consent: { speakerName, statement: VOICE_CLONE_CONSENT, agreedAt: Date.now() },
+        createdAt: Date.now(),
+      }, sampleData);
+    } catch (error) {
+      await deleteVoice(voiceId).catch((deleteError) =>
+        console.error(`Error deleting voice ${voiceId} after its consent record failed to save:`, deleteError)
+      );
+      throw error;
+    }
+
+    const voice: Voice = {
+      id: voiceId,
+      name: voiceName,
+      description,
+      category: CUSTOM_VOICE_CATEGORY,
+      labels: {},
+      tags: [],
+      previewUrl: null,
+    };
+
+    return NextResponse.json({ voice, clone }, { status: 201 });
+  } catch (error) {
+    console.error("Error cloning voice:", error);
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    );
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
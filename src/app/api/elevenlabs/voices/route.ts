@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { listVoices } from "@/lib/voiceover/elevenlabs";
+import { listAllVoiceClones } from "@/lib/voiceover/voiceCloneStore";
+import { CUSTOM_VOICE_CATEGORY } from "@/lib/voiceover/voiceClones";
+
+export const dynamic = "force-dynamic";
+
+// The account's voices with their labels and preview URLs. ?refresh=1 skips the cache,
+// e.g. after adding a voice from the library. With ?userId= the user's own clones are in
+// the custom category, and clones other users made through the app are left out.
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const refresh = params.get("refresh") === "1";
+  const userId = params.get("userId");
+
+  try {
+    const [voices, clones] = await Promise.all([listVoices(refresh), listAllVoiceClones()]);
+    const owners = new Map(clones.map(clone => [clone.voiceId, clone.userId]));
+
+    return NextResponse.json({
+      voices: voices
+        .filter(voice => !owners.has(voice.id) || owners.get(voice.id) === userId)
+        .map(voice => owners.has(voice.id) ? { ...voice, category: CUSTOM_VOICE_CATEGORY } : voice),
+    });
+  } catch (error) {
+    console.error("Error listing voices:", error);
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
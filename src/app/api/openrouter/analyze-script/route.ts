@@ -1,4 +1,6 @@
 import { NextResponse } from "next/server";
+import { listVoices } from "@/lib/voiceover/elevenlabs";
+import { getLabelValues } from "@/lib/voiceover/voices";
 
 export async function POST(request: Request) {
   if (!process.env.OPENROUTER_API_KEY) {
@@ -16,6 +18,25 @@ export async function POST(request: Request) {
     );
   }
 
+  // Steer the analysis towards accents and qualities the account's voices actually have,
+  // so the client's matching against the catalogue finds them
+  let catalogue = "";
+  try {
+    const voices = await listVoices();
+    const accents = getLabelValues(voices, "accent");
+    const qualities = Array.from(new Set(voices.flatMap(voice => voice.tags)))
+      .filter(tag => !accents.includes(tag) && tag !== "male" && tag !== "female");
+
+    if (accents.length > 0) {
+      catalogue += `\n\nThe available voices have these accents: ${accents.join(", ")}. Choose the accent from this list, or null.`;
+    }
+    if (qualities.length > 0) {
+      catalogue += `\nTheir tones and qualities include: ${qualities.join(", ")}. Prefer these words where they fit.`;
+    }
+  } catch (error) {
+    console.error("Error loading the voice catalogue for script analysis:", error);
+  }
+
   try {
     const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
       method: "POST",
@@ -46,7 +67,7 @@ export async function POST(request: Request) {
               "tone": ["primary tone", "secondary tone"],
               "accent": "accent if applicable or null",
               "qualities": ["quality1", "quality2"]
-            }`
+            }${catalogue}`
           },
           {
             role: "user",
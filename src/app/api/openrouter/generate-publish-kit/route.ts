@@ -0,0 +1,156 @@
+import { NextResponse } from "next/server";
+import { promises as fs } from "fs";
+import path from "path";
+import { alignScriptToTimings, normalizeWordTimings } from "@/lib/voiceover/alignment";
+import {
+  PublishKit,
+  buildChapterSegments,
+  buildChapters,
+  buildDescription,
+  formatChapterTime,
+  normalizeHashtags,
+  normalizeTags,
+  normalizeVideoTimeline,
+} from "@/lib/video/publishKit";
+
+// Render job IDs, which name the video files
+const VIDEO_ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+// Title options, a description with chapters, hashtags and tags for a rendered video. The
+// chapter timestamps come from its scenes; the model only names them. Saved next to the video.
+export async function POST(request: Request) {
+  try {
+    const { videoId, script, alignment: alignmentInput, timeline: timelineInput } = await request.json();
+
+    if (!process.env.OPENROUTER_API_KEY) {
+      return NextResponse.json(
+        { error: "OPENROUTER_API_KEY is not set" },
+        { status: 500 }
+      );
+    }
+
+    if (!script) {
+      return NextResponse.json(
+        { error: "Script is required" },
+        { status: 400 }
+      );
+    }
+
+    const timeline = normalizeVideoTimeline(timelineInput);
+    if (typeof videoId !== "string" || !VIDEO_ID_PATTERN.test(videoId) || !timeline) {
+      return NextResponse.json(
+        { error: "A rendered video and its timeline are required" },
+        { status: 400 }
+      );
+    }
+
+    const words = alignScriptToTimings(script, normalizeWordTimings(alignmentInput), timeline.voiceoverDuration);
+    const segments = buildChapterSegments(timeline, words);
+
+    const modelId = process.env.OPENROUTER_MODEL_ID || "google/gemini-2.0-flash-001";
+
+    const systemPrompt = `
+    You are a YouTube SEO expert. Your task is to write the metadata for publishing a video.
+
+    Based on the script provided, write:
+    1. "titles": 5 title options under 70 characters, searchable and click-worthy without being misleading
+    2. "description": a 2-3 paragraph description whose first sentence works as a search snippet. Do NOT include timestamps, chapters or hashtags
+    3. "chapterTitles": a short title (2-5 words) for each chapter listed, in order, exactly one per chapter
+    4. "hashtags": 3-5 relevant hashtags
+    5. "tags": 10-20 search tags, from broad to specific
+
+    Format your response as a JSON object with exactly those keys.
+    DO NOT include explanations, just provide the JSON.
+    `;
+
+    const chapterList = segments.length > 0
+      ? segments.map((segment, i) => `Chapter ${i + 1} (${formatChapterTime(segment.startTime)}): ${segment.text}`).join("\n")
+      : "There are no chapters, return an empty chapterTitles array.";
+
+    console.log(`Generating publish kit for video ${videoId} with ${segments.length} chapters`);
+
+    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${process.env.OPENROUTER_API_KEY}`,
+        "HTTP-Referer": "https://www.futureai.dev",
+        "X-Title": "AI Video Creator"
+      },
+      body: JSON.stringify({
+        model: modelId,
+        messages: [
+          {
+            role: "system",
+            content: systemPrompt
+          },
+          {
+            role: "user",
+            content: `Write the YouTube metadata for a video narrating this script:
+
+            ${script}
+
+            The video's chapters and what is said in each:
+            ${chapterList}`
+          }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to generate publish kit");
+    }
+
+    const data = await response.json();
+
+    if (!data.choices || !data.choices[0] || !data.choices[0].message || !data.choices[0].message.content) {
+      throw new Error("Invalid response from OpenRouter API");
+    }
+
+    let content: any;
+    try {
+      content = JSON.parse(data.choices[0].message.content.replace(/```(?:json)?/g, "").trim());
+    } catch (error) {
+      throw new Error("The publish kit response was not valid JSON");
+    }
+
+    const titles = Array.isArray(content.titles)
+      ? content.titles.filter((title: any) => typeof title === "string" && title.trim()).map((title: string) => title.trim())
+      : [];
+    if (titles.length === 0 || typeof content.description !== "string") {
+      throw new Error("The publish kit response is missing titles or a description");
+    }
+
+    const chapterTitles = Array.isArray(content.chapterTitles) ? content.chapterTitles.map(String) : [];
+    const chapters = buildChapters(segments, chapterTitles, timeline.introDuration);
+    const hashtags = normalizeHashtags(content.hashtags);
+
+    const publishKit: PublishKit = {
+      videoId,
+      titles,
+      description: buildDescription(content.description, chapters, hashtags),
+      chapters,
+      hashtags,
+      tags: normalizeTags(content.tags),
+      createdAt: Date.now(),
+    };
+
+    await fs.writeFile(
+      path.join(process.cwd(), "public", "videos", `${videoId}.publish.json`),
+      JSON.stringify(publishKit, null, 2)
+    );
+
+    return NextResponse.json({
+      publishKit,
+      jsonUrl: `/videos/${videoId}.publish.json`,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error("Error generating publish kit:", error);
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
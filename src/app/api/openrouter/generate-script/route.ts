@@ -1,4 +1,6 @@
 import { NextResponse } from "next/server";
+import { normalizeScriptMode, parseDialogue } from "@/lib/voiceover/dialogue";
+import { buildScriptStyleRequirements, getScriptPersona, normalizeScriptStyle } from "@/lib/voiceover/scriptStyle";
 
 export async function POST(request: Request) {
   if (!process.env.OPENROUTER_API_KEY) {
@@ -7,7 +9,9 @@ export async function POST(request: Request) {
     );
   }
 
-  const { prompt, duration = 1 } = await request.json();
+  const { prompt, duration = 1, mode: modeInput, style: styleInput } = await request.json();
+  const mode = normalizeScriptMode(modeInput);
+  const style = normalizeScriptStyle(styleInput);
   
   // Calculate target word count based on duration
   const targetWordCount = duration * 180; // 180 words per minute
@@ -42,7 +46,10 @@ export async function POST(request: Request) {
             messages: [
               {
                 role: "system",
-                content: `You are a professional video script writer. Create a concise and engaging script based on the user's idea.
+                content: `You are ${getScriptPersona(style)}. Create a concise and engaging script based on the user's idea.
+                
+                STYLE REQUIREMENTS:
+                ${buildScriptStyleRequirements(style, mode).map(requirement => `- ${requirement}`).join("\n                ")}
                 
                 IMPORTANT WORD COUNT REQUIREMENTS:
                 - The script MUST contain EXACTLY between ${minWordCount} and ${maxWordCount} words
@@ -50,9 +57,15 @@ export async function POST(request: Request) {
                 - Script must AT MINIMUM meet the target word count (${targetWordCount} words)
                 - Script must NOT exceed ${maxWordCount} words (15% over target)
                 
-                SCRIPT FORMAT REQUIREMENTS:
-                - Include ONLY the actual narration text to be spoken by the voice actor
-                - DO NOT include any labels like "Script:", "Title:", "Introduction:", etc.
+                ${mode === "dialogue" ? `DIALOGUE FORMAT REQUIREMENTS:
+                - Write the script as a conversation between 2 or 3 characters with distinct personalities
+                - Put every line on its own line, starting with the speaker's name and a colon, e.g. "ALEX: What happened next?"
+                - Use the same short name for a character every time
+                - Keep lines short and natural, alternating between speakers
+                
+                ` : ""}SCRIPT FORMAT REQUIREMENTS:
+                - Include ONLY the actual ${mode === "dialogue" ? "lines" : "narration text"} to be spoken by the ${mode === "dialogue" ? "voice actors" : "voice actor"}
+                - DO NOT include any labels like "Script:", "Title:", "Introduction:", etc.${mode === "dialogue" ? " other than the speaker names" : ""}
                 - DO NOT include any production directions or technical instructions
                 - DO NOT include any metadata or descriptions
                 - Structure the script with proper paragraphs and natural breaks
@@ -63,7 +76,7 @@ export async function POST(request: Request) {
                 - DO NOT use repetitive sentence structures
                 - Ensure the script has a coherent structure with a clear beginning, middle, and end
                 - Maintain context throughout the entire script
-                - Create a narrative flow with a storyline that develops naturally
+                - Create a natural flow that develops along the structure above
                 - Vary sentence length and structure to maintain engagement
                 - Avoid generic filler content and cliches
                 - Make sure the script covers the full narrative and completes the story
@@ -193,8 +206,13 @@ export async function POST(request: Request) {
       }
     }
 
-    // Convert any \n in the script to actual newlines for display
-    if (parsedContent.script) {
+    if (mode === "dialogue" && parsedContent.script) {
+      // Dialogue keeps its speaker lines as written; the narration clean-up and length
+      // adjustments would merge or pad them
+      parsedContent.script = cleanDialogueText(parsedContent.script.replace(/\\n/g, "\n"));
+      console.log(`Dialogue word count: ${parsedContent.script.trim().split(/\s+/).length}, Target: ${targetWordCount}-${maxWordCount}`);
+    } else if (parsedContent.script) {
+      // Convert any \n in the script to actual newlines for display
       parsedContent.script = parsedContent.script.replace(/\\n/g, "\n");
       
       // Clean the script to ensure ONLY narration text is included
@@ -280,6 +298,18 @@ function cleanScriptText(script: string): string {
   return cleanedScript;
 }
 
+// Function to clean a dialogue script, one "NAME: text" line per line without stage directions
+function cleanDialogueText(script: string): string {
+  const lines = parseDialogue(script.replace(/\[.*?\]|\(.*?\)/g, ""));
+  
+  // Keep the script as it was if the model didn't label the lines, it's read as narration
+  if (lines.length === 0) {
+    return cleanScriptText(script);
+  }
+  
+  return lines.map(line => `${line.speaker}: ${line.text.replace(/\s{2,}/g, " ")}`).join("\n");
+}
+
 // Function to expand a script to meet minimum word count
 function expandScript(script: string, targetWordCount: number): string {
   const currentWordCount = script.trim().split(/\s+/).length;
@@ -1,4 +1,7 @@
 import { NextResponse } from "next/server";
+import { ASPECT_RATIOS, normalizeAspectRatio } from "@/lib/video/aspectRatio";
+import { getSpokenText, normalizeWordTimings } from "@/lib/voiceover/alignment";
+import { normalizeScenes } from "@/lib/voiceover/scenes";
 
 export async function POST(request: Request) {
   if (!process.env.OPENROUTER_API_KEY) {
@@ -7,28 +10,66 @@ export async function POST(request: Request) {
     );
   }
 
-  const { script, audioDuration, interval = 4 } = await request.json();
+  const { script, audioDuration, interval = 4, aspectRatio: aspectRatioInput, alignment: alignmentInput, scenes: scenesInput } = await request.json();
+  const alignment = normalizeWordTimings(alignmentInput);
+  const scenes = normalizeScenes(scenesInput);
+  const aspectRatio = normalizeAspectRatio(aspectRatioInput);
+  const { promptSuffix } = ASPECT_RATIOS[aspectRatio];
+
+  // Text spoken during a segment, from the voiceover's word timings when we have them,
+  // otherwise estimated from the position in the script
+  const getSegmentText = (startTime: number, endTime: number) => {
+    if (alignment.length > 0) {
+      return getSpokenText(alignment, startTime, endTime);
+    }
+    const scriptSegmentStart = Math.floor((script.length * startTime) / audioDuration);
+    const scriptSegmentEnd = Math.min(script.length, scriptSegmentStart + 200);
+    return script.substring(scriptSegmentStart, scriptSegmentEnd).split(' ').slice(0, 20).join(' ');
+  };
 
   try {
     // Calculate how many images we need based on the audio duration and interval
     // Allow for a much higher number of images
     const maxImages = 1000; // Previously limited to 30 images maximum
     const calculatedImages = Math.max(1, Math.ceil(audioDuration / interval));
-    const numImages = Math.min(calculatedImages, maxImages);
+    const numImages = scenes.length > 0 ? scenes.length : Math.min(calculatedImages, maxImages);
     
     // If we had to limit the images, adjust the interval to spread them evenly
-    const actualInterval = numImages < calculatedImages ? audioDuration / numImages : interval;
+    const actualInterval = scenes.length > 0
+      ? audioDuration / numImages
+      : numImages < calculatedImages ? audioDuration / numImages : interval;
     
-    // Generate timestamps for each image
-    const timestamps = Array.from({ length: numImages }, (_, i) => {
-      return {
-        startTime: i * actualInterval,
-        endTime: Math.min((i + 1) * actualInterval, audioDuration),
-        formattedTime: formatTimestamp(i * actualInterval) + "-" + formatTimestamp(Math.min((i + 1) * actualInterval, audioDuration))
-      };
-    });
+    // Generate timestamps for each image: one per sentence-aligned scene when the client
+    // segmented the voiceover, otherwise at a fixed interval
+    const timestamps = scenes.length > 0
+      ? scenes.map(scene => ({
+          startTime: scene.startTime,
+          endTime: scene.endTime,
+          text: scene.text,
+          formattedTime: formatTimestamp(scene.startTime) + "-" + formatTimestamp(scene.endTime)
+        }))
+      : Array.from({ length: numImages }, (_, i) => {
+          const startTime = i * actualInterval;
+          const endTime = Math.min((i + 1) * actualInterval, audioDuration);
+          return {
+            startTime,
+            endTime,
+            text: getSegmentText(startTime, endTime),
+            formattedTime: formatTimestamp(startTime) + "-" + formatTimestamp(endTime)
+          };
+        });
 
-    console.log(`Generating ${numImages} image prompts at intervals of approximately ${actualInterval.toFixed(2)} seconds`);
+    if (scenes.length > 0) {
+      console.log(`Generating ${numImages} image prompts for sentence-aligned scenes`);
+    } else {
+      console.log(`Generating ${numImages} image prompts at intervals of approximately ${actualInterval.toFixed(2)} seconds`);
+    }
+
+    // With scenes every segment is listed with its exact words, so the model can't drift
+    const listedSegments = scenes.length > 0 ? timestamps : timestamps.slice(0, 15);
+    const segmentDivision = scenes.length > 0
+      ? `divide it into the ${numImages} scenes listed below. Each scene is a shot of the video and the timestamp of its prompt MUST be the start of the scene`
+      : `divide it into ${numImages} segments of approximately ${actualInterval.toFixed(2)} seconds each`;
 
     // Implement retry mechanism for API calls
     const maxRetries = 3;
@@ -56,7 +97,7 @@ export async function POST(request: Request) {
             messages: [
               {
                 role: "system",
-                content: `You are a specialized AI Image Prompt Generator that creates detailed, timestamped prompts for voice-synchronized visuals. Your task is to analyze the provided script/voiceover content thoroughly and divide it into ${numImages} segments of approximately ${actualInterval.toFixed(2)} seconds each.
+                content: `You are a specialized AI Image Prompt Generator that creates detailed, timestamped prompts for voice-synchronized visuals. Your task is to analyze the provided script/voiceover content thoroughly and ${segmentDivision}.
 
 For each segment, you'll generate a highly detailed photorealistic image prompt that precisely matches what is being discussed at that exact moment in the script.
 
@@ -68,7 +109,7 @@ Follow these specific guidelines:
 - Include specific artistic direction such as "shallow depth of field," "golden hour lighting," or "aerial perspective" when appropriate
 - Maintain narrative continuity between sequential images
 - Each prompt MUST begin with "photo realistic"
-- Always specify "16:9 aspect ratio, landscape orientation" to ensure proper formatting
+- Always specify "${promptSuffix}" to ensure proper formatting and compose the shot for that frame
 - Ensure all prompts collectively cover the entire script narrative from beginning to end
 - Avoid abstract concepts that don't translate well visually
 - Make sure the final prompt reaches the conclusion of the story/script
@@ -86,8 +127,8 @@ IMPORTANT: Keep your total output under 100KB to avoid truncation issues.`
 Audio duration: ${audioDuration} seconds
 
 I need ${numImages} highly detailed, photorealistic image prompts for these segments:
-${timestamps.slice(0, 15).map(t => `- [${t.formattedTime}]: (${Math.floor(t.startTime)} seconds into the audio)`).join('\n')}
-${numImages > 15 ? `...and ${numImages - 15} more segments` : ''}
+${listedSegments.map(t => `- [${t.formattedTime}]: (${scenes.length > 0 ? Number(t.startTime.toFixed(2)) : Math.floor(t.startTime)} seconds into the audio)${scenes.length > 0 || alignment.length > 0 ? ` spoken: "${t.text}"` : ''}`).join('\n')}
+${numImages > listedSegments.length ? `...and ${numImages - listedSegments.length} more segments` : ''}
 
 Create prompts that precisely match what would be spoken at each timestamp in the script, with extensive visual detail (lighting, composition, emotion, setting, etc.). Keep visual continuity with adjacent segments.`
               },
@@ -191,32 +232,37 @@ Create prompts that precisely match what would be spoken at each timestamp in th
           : `photo realistic ${item.prompt}`
       }));
       
-      // Add 16:9 aspect ratio if not present
+      // Add the aspect ratio if not present
       parsedContent.imagePrompts = parsedContent.imagePrompts.map(item => ({
         timestamp: item.timestamp || 0,
-        prompt: item.prompt.includes("16:9") 
+        prompt: item.prompt.includes(aspectRatio) 
           ? item.prompt 
-          : `${item.prompt}, 16:9 aspect ratio, landscape orientation`
+          : `${item.prompt}, ${promptSuffix}`
       }));
       
       // Sort prompts by timestamp
       parsedContent.imagePrompts.sort((a, b) => a.timestamp - b.timestamp);
       
+      if (scenes.length > 0) {
+        // Pin prompts to the scene boundaries; the model's timestamps are only used for ordering
+        const modelPrompts: { timestamp: number; prompt: string }[] = parsedContent.imagePrompts;
+        parsedContent.imagePrompts = timestamps.map((t, i) => ({
+          timestamp: t.startTime,
+          prompt: modelPrompts[i]?.prompt ||
+            `photo realistic detailed scene depicting: "${t.text}" with cinematic lighting, rich details, and emotional depth. ${promptSuffix}`
+        }));
+      }
+
       // Ensure we have prompts for each timestamp
       const generatedTimestamps = new Set(parsedContent.imagePrompts.map(p => Math.floor(p.timestamp)));
       
       // Create missing prompts for timestamps we don't have
-      for (let i = 0; i < numImages; i++) {
-        const timestamp = Math.floor(i * actualInterval);
+      for (const t of timestamps) {
+        const timestamp = Math.floor(t.startTime);
         if (!generatedTimestamps.has(timestamp)) {
-          // Extract a relevant portion of the script for this timestamp
-          const scriptSegmentStart = Math.floor((script.length * timestamp) / audioDuration);
-          const scriptSegmentEnd = Math.min(script.length, scriptSegmentStart + 200);
-          const scriptSegment = script.substring(scriptSegmentStart, scriptSegmentEnd).split(' ').slice(0, 20).join(' ');
-          
           parsedContent.imagePrompts.push({
             timestamp: timestamp,
-            prompt: `photo realistic detailed scene depicting: "${scriptSegment}..." with cinematic lighting, rich details, and emotional depth. 16:9 aspect ratio, landscape orientation`
+            prompt: `photo realistic detailed scene depicting: "${t.text}..." with cinematic lighting, rich details, and emotional depth. ${promptSuffix}`
           });
         }
       }
@@ -233,17 +279,10 @@ Create prompts that precisely match what would be spoken at each timestamp in th
       
       // Emergency fallback - generate a basic structure
       parsedContent = {
-        imagePrompts: timestamps.map((t, index) => {
-          // Extract a relevant portion of the script for this timestamp
-          const scriptSegmentStart = Math.floor((script.length * t.startTime) / audioDuration);
-          const scriptSegmentEnd = Math.min(script.length, scriptSegmentStart + 200);
-          const scriptSegment = script.substring(scriptSegmentStart, scriptSegmentEnd).split(" ").slice(0, 20).join(" ");
-          
-          return {
-            timestamp: Math.floor(t.startTime),
-            prompt: `photo realistic detailed scene depicting: "${scriptSegment}...". High-quality cinematographic composition with professional lighting, rich details, and emotional depth. 16:9 aspect ratio, landscape orientation`
-          };
-        })
+        imagePrompts: timestamps.map(t => ({
+          timestamp: scenes.length > 0 ? t.startTime : Math.floor(t.startTime),
+          prompt: `photo realistic detailed scene depicting: "${t.text}...". High-quality cinematographic composition with professional lighting, rich details, and emotional depth. ${promptSuffix}`
+        }))
       };
     }
 
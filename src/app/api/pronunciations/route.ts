@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { normalizePronunciationLexicon } from "@/lib/voiceover/pronunciation";
+import { getPronunciationLexicon, savePronunciationLexicon } from "@/lib/voiceover/pronunciationStore";
+import { USER_ID_PATTERN } from "@/lib/voiceover/voiceClones";
+
+export const dynamic = "force-dynamic";
+
+// The user's lexicon
+export async function GET(request: Request) {
+  const userId = new URL(request.url).searchParams.get("userId") || "";
+
+  if (!USER_ID_PATTERN.test(userId)) {
+    return NextResponse.json(
+      { error: "Invalid user ID" },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ entries: await getPronunciationLexicon(userId) });
+}
+
+// Replace the user's whole lexicon with the entries sent
+export async function PUT(request: Request) {
+  try {
+    const { userId, entries } = await request.json();
+
+    if (typeof userId !== "string" || !USER_ID_PATTERN.test(userId)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 });
+    }
+
+    const saved = await savePronunciationLexicon(userId, normalizePronunciationLexicon(entries));
+    return NextResponse.json({ entries: saved });
+  } catch (error) {
+    console.error("Error saving pronunciations:", error);
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
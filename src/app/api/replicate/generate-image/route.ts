@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import Replicate from "replicate";
+import { ASPECT_RATIOS, normalizeAspectRatio } from "@/lib/video/aspectRatio";
 
 const replicate = new Replicate({
   auth: process.env.REPLICATE_API_TOKEN,
@@ -12,20 +13,23 @@ export async function POST(request: Request) {
     );
   }
 
-  const { prompt } = await request.json();
+  const { prompt, aspectRatio: aspectRatioInput } = await request.json();
+  const aspectRatio = normalizeAspectRatio(aspectRatioInput);
+  const format = ASPECT_RATIOS[aspectRatio];
 
   try {
     const output = await replicate.run(
       process.env.REPLICATE_IMAGE_MODEL_ID || "black-forest-labs/flux-schnell",
       {
         input: {
-          prompt: `${prompt} | 16:9 aspect ratio, landscape orientation, widescreen format`,
-          width: 1920,
-          height: 1080,
+          prompt: `${prompt} | ${format.promptSuffix}`,
+          width: format.width,
+          height: format.height,
+          aspect_ratio: aspectRatio,
           num_outputs: 1,
           num_inference_steps: 4,
           guidance_scale: 7.5,
-          negative_prompt: "blurry, low quality, cartoon, 3d, painting, drawing, low resolution, square format, portrait orientation",
+          negative_prompt: `blurry, low quality, cartoon, 3d, painting, drawing, low resolution, ${format.negativePrompt}`,
         },
       }
     );
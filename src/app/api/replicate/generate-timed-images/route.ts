@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import Replicate from "replicate";
+import { ASPECT_RATIOS, normalizeAspectRatio } from "@/lib/video/aspectRatio";
 
 const replicate = new Replicate({
   auth: process.env.REPLICATE_API_TOKEN,
@@ -12,7 +13,10 @@ export async function POST(request: Request) {
     );
   }
 
-  const { prompts } = await request.json();
+  const { prompts, aspectRatio: aspectRatioInput } = await request.json();
+  const aspectRatio = normalizeAspectRatio(aspectRatioInput);
+  const format = ASPECT_RATIOS[aspectRatio];
+  const negativePrompt = `blurry, low quality, cartoon, 3d, painting, drawing, low resolution, ${format.negativePrompt}, text, watermark, signature, label, words, characters, nudity, naked, nude, nsfw content`;
 
   if (!prompts || !Array.isArray(prompts) || prompts.length === 0) {
     return NextResponse.json({ error: "Invalid prompts array" }, { status: 400 });
@@ -25,7 +29,7 @@ export async function POST(request: Request) {
       const { timestamp, prompt } = promptData;
       
       // Clean up prompt - make sure we don't add redundant parameters
-      // The prompt might already include 16:9 aspect ratio from the generate-timed-image-prompts API
+      // The prompt might already include the aspect ratio from the generate-timed-image-prompts API
       const cleanedPrompt = prompt.trim();
       
       // Sanitize the prompt to avoid NSFW filter issues
@@ -39,12 +43,13 @@ export async function POST(request: Request) {
           {
             input: {
               prompt: sanitizedPrompt,
-              width: 1920,
-              height: 1080, // 16:9 aspect ratio, higher resolution
+              width: format.width,
+              height: format.height, // Native dimensions for the chosen aspect ratio
+              aspect_ratio: aspectRatio,
               num_outputs: 1,
               num_inference_steps: 4, // Maximum allowed value for this model
               guidance_scale: 8, // Increased from 7.5 for more prompt adherence
-              negative_prompt: "blurry, low quality, cartoon, 3d, painting, drawing, low resolution, square format, portrait orientation, vertical, vertical format, vertical orientation, text, watermark, signature, label, words, characters, nudity, naked, nude, nsfw content",
+              negative_prompt: negativePrompt,
             },
           }
         );
@@ -78,7 +83,7 @@ export async function POST(request: Request) {
           console.log(`Creating alternative image for NSFW content at timestamp ${timestamp}`);
           
           // Generate a modified prompt that will avoid NSFW filters
-          const alternativePrompt = createAlternativePrompt(sanitizedPrompt);
+          const alternativePrompt = createAlternativePrompt(sanitizedPrompt, format.promptSuffix);
           
           try {
             // Try again with the alternative prompt
@@ -87,12 +92,13 @@ export async function POST(request: Request) {
               {
                 input: {
                   prompt: alternativePrompt,
-                  width: 1920,
-                  height: 1080,
+                  width: format.width,
+                  height: format.height,
+                  aspect_ratio: aspectRatio,
                   num_outputs: 1,
                   num_inference_steps: 4,
                   guidance_scale: 8,
-                  negative_prompt: "blurry, low quality, cartoon, 3d, painting, drawing, low resolution, square format, portrait orientation, vertical, vertical format, vertical orientation, text, watermark, signature, label, words, characters, nudity, naked, nude, nsfw content",
+                  negative_prompt: negativePrompt,
                 },
               }
             );
@@ -149,16 +155,16 @@ function sanitizePromptForNSFW(prompt: string): string {
 }
 
 // Function to create alternative prompts for failed NSFW cases
-function createAlternativePrompt(originalPrompt: string): string {
+function createAlternativePrompt(originalPrompt: string, promptSuffix: string): string {
   // Create a more abstract/symbolic alternative that avoids NSFW issues
   if (originalPrompt.toLowerCase().includes("adam and eve")) {
-    return "photo realistic A man and woman in a garden paradise, dressed in simple cloth garments. Golden light filters through lush trees, creating a serene atmosphere. The scene is captured with cinematic lighting and rich details. 16:9 aspect ratio, landscape orientation";
+    return `photo realistic A man and woman in a garden paradise, dressed in simple cloth garments. Golden light filters through lush trees, creating a serene atmosphere. The scene is captured with cinematic lighting and rich details. ${promptSuffix}`;
   }
   
   if (originalPrompt.toLowerCase().includes("birth")) {
-    return "photo realistic A family in a moment of deep emotion and transformation. Soft light illuminates their expressions of joy mixed with pain. A profound moment of human experience depicted with dignity and emotional depth. 16:9 aspect ratio, landscape orientation";
+    return `photo realistic A family in a moment of deep emotion and transformation. Soft light illuminates their expressions of joy mixed with pain. A profound moment of human experience depicted with dignity and emotional depth. ${promptSuffix}`;
   }
   
   // Generic alternative that preserves the theme but removes potential NSFW content
-  return "photo realistic A symbolic scene representing human experience in a lush garden setting. Figures draped in flowing white garments exist in harmony with nature. Golden hour lighting creates a mystical atmosphere with dramatic shadows. 16:9 aspect ratio, landscape orientation";
+  return `photo realistic A symbolic scene representing human experience in a lush garden setting. Figures draped in flowing white garments exist in harmony with nature. Golden hour lighting creates a mystical atmosphere with dramatic shadows. ${promptSuffix}`;
 } 
\ No newline at end of file
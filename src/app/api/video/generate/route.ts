@@ -1,11 +1,21 @@
 import { NextResponse } from "next/server";
 import { promises as fs } from "fs";
 import path from "path";
-import { exec } from "child_process";
-import { promisify } from "util";
-import crypto from "crypto";
-
-const execPromise = promisify(exec);
+import { normalizeTransition } from "@/lib/video/transitions";
+import { MotionDescriptor, normalizeMotion } from "@/lib/video/motion";
+import { buildSlideshowFiltergraph } from "@/lib/video/slideshow";
+import { ASPECT_RATIOS, normalizeAspectRatio } from "@/lib/video/aspectRatio";
+import { buildAssSubtitles, escapeFilterPath, normalizeCaptions } from "@/lib/video/captions";
+import { buildSrt, buildSubtitleCues, buildVtt } from "@/lib/video/subtitles";
+import { getScriptWordTimings } from "@/lib/voiceover/transcribeTimings";
+import { alignScriptToTimings, normalizeWordTimings } from "@/lib/voiceover/alignment";
+import { enqueueRenderJob, throwIfCancelled } from "@/lib/video/renderJobs";
+import { normalizeMusicMix } from "@/lib/video/musicMix";
+import { LOUDNESS_TARGETS, normalizeLoudnessTarget } from "@/lib/video/loudness";
+import { DEFAULT_INTRO, DEFAULT_OUTRO, buildTitleCardFilter, normalizeTitleCard } from "@/lib/video/titleCards";
+import { buildWatermarkFilter } from "@/lib/video/brandKit";
+import { getBrandKit, getBrandKitFiles } from "@/lib/video/brandKitStore";
+import { mixAudio, normalizeLoudness, probeDuration, probeVideoSize, renderVideo } from "@/lib/video/ffmpeg";
 
 // Ensure temporary directories exist
 async function ensureDirExists(dirPath: string) {
@@ -16,9 +26,50 @@ async function ensureDirExists(dirPath: string) {
   }
 }
 
+// Queue a render and respond with its job ID straight away, the render itself runs in
+// the background. Progress and the result come from /api/video/jobs/[jobId].
 export async function POST(request: Request) {
   try {
-    const { images, timedImages, audioBase64, backgroundMusic, duration = 5 } = await request.json();
+    const {
+      images,
+      timedImages,
+      audioBase64,
+      backgroundMusic,
+      musicMix: musicMixInput,
+      loudnessTarget: loudnessTargetInput,
+      duration = 5,
+      script,
+      alignment: alignmentInput,
+      transition: transitionInput,
+      aspectRatio: aspectRatioInput,
+      captions: captionsInput,
+      intro: introInput,
+      outro: outroInput,
+      brandKitId,
+    } = await request.json();
+    const transition = normalizeTransition(transitionInput);
+    const aspectRatio = normalizeAspectRatio(aspectRatioInput);
+    const format = ASPECT_RATIOS[aspectRatio];
+    let captions = normalizeCaptions(captionsInput);
+    const musicMix = normalizeMusicMix(musicMixInput);
+    const loudnessTarget = normalizeLoudnessTarget(loudnessTargetInput);
+    let intro = normalizeTitleCard(introInput, DEFAULT_INTRO);
+    let outro = normalizeTitleCard(outroInput, DEFAULT_OUTRO);
+    
+    // A selected brand kit sets the caption font and the caption and title card colours
+    const brandKit = brandKitId ? await getBrandKit(brandKitId) : null;
+    if (brandKitId && !brandKit) {
+      return NextResponse.json(
+        { error: "Brand kit not found" },
+        { status: 400 }
+      );
+    }
+    const brandFiles = brandKit ? getBrandKitFiles(brandKit) : null;
+    if (brandKit) {
+      captions = { ...captions, font: brandKit.fontFamily || captions.font, highlightColor: brandKit.primaryColor };
+      intro = { ...intro, backgroundColor: brandKit.primaryColor, textColor: brandKit.secondaryColor };
+      outro = { ...outro, backgroundColor: brandKit.primaryColor, textColor: brandKit.secondaryColor };
+    }
     
     // Use either timedImages (with timestamps) or fallback to regular images
     const hasTimedImages = timedImages && Array.isArray(timedImages) && timedImages.length > 0;
@@ -37,150 +88,301 @@ export async function POST(request: Request) {
       );
     }
 
-    // Generate a unique ID for this video
-    const videoId = crypto.randomUUID();
-    
-    // Define directories for temporary files
-    const publicDir = path.join(process.cwd(), "public");
-    const tempDir = path.join(publicDir, "temp", videoId);
-    const outputDir = path.join(publicDir, "videos");
-    
-    // Ensure directories exist
-    await ensureDirExists(tempDir);
-    await ensureDirExists(outputDir);
-    
-    // Save audio file
-    const audioBuffer = Buffer.from(audioBase64, 'base64');
-    const audioPath = path.join(tempDir, "audio.mp3");
-    await fs.writeFile(audioPath, audioBuffer);
-    
-    // Save background music file if provided
-    let musicPath = null;
-    if (backgroundMusic) {
-      try {
-        // Download the background music file from the URL
-        const musicResponse = await fetch(backgroundMusic);
-        if (!musicResponse.ok) {
-          throw new Error(`Failed to download music: ${musicResponse.statusText}`);
+    const job = enqueueRenderJob(async (job, update, signal) => {
+      // The video is named after its render job
+      const videoId = job.id;
+      
+      // Define directories for temporary files
+      const publicDir = path.join(process.cwd(), "public");
+      const tempDir = path.join(publicDir, "temp", videoId);
+      const outputDir = path.join(publicDir, "videos");
+      
+      // Ensure directories exist
+      await ensureDirExists(tempDir);
+      await ensureDirExists(outputDir);
+      
+      // Save audio file
+      const audioBuffer = Buffer.from(audioBase64, 'base64');
+      const audioPath = path.join(tempDir, "audio.mp3");
+      await fs.writeFile(audioPath, audioBuffer);
+      
+      // Analyze the voiceover duration, used for image timing and the music fade-out
+      const voiceoverDuration = await probeDuration(audioPath, { signal });
+      console.log(`Voiceover duration: ${voiceoverDuration} seconds`);
+      
+      // Save background music file if provided
+      let musicPath = null;
+      if (backgroundMusic) {
+        try {
+          // Download the background music file from the URL
+          const musicResponse = await fetch(backgroundMusic);
+          if (!musicResponse.ok) {
+            throw new Error(`Failed to download music: ${musicResponse.statusText}`);
+          }
+          const musicBuffer = await musicResponse.arrayBuffer();
+          musicPath = path.join(tempDir, "music.mp3");
+          await fs.writeFile(musicPath, Buffer.from(musicBuffer));
+          console.log("Background music saved to:", musicPath);
+        } catch (error) {
+          console.error("Error downloading background music:", error);
+          // Continue without background music if there's an error
         }
-        const musicBuffer = await musicResponse.arrayBuffer();
-        musicPath = path.join(tempDir, "music.mp3");
-        await fs.writeFile(musicPath, Buffer.from(musicBuffer));
-        console.log("Background music saved to:", musicPath);
-      } catch (error) {
-        console.error("Error downloading background music:", error);
-        // Continue without background music if there's an error
-      }
-    }
-    
-    // Save images
-    const imagePaths = [];
-    let timestamps: number[] = [];
-    
-    if (hasTimedImages) {
-      // Sort timedImages by timestamp
-      const sortedTimedImages = [...timedImages].sort((a, b) => a.timestamp - b.timestamp);
-      
-      console.log(`Processing ${sortedTimedImages.length} images for video generation`);
-      
-      for (let i = 0; i < sortedTimedImages.length; i++) {
-        const item = sortedTimedImages[i];
-        const imgData = item.imageBase64.replace(/^data:image\/\w+;base64,/, "");
-        const imgBuffer = Buffer.from(imgData, 'base64');
-        const imgPath = path.join(tempDir, `image_${i.toString().padStart(3, '0')}.jpg`);
-        await fs.writeFile(imgPath, imgBuffer);
-        imagePaths.push(imgPath);
-        timestamps.push(item.timestamp);
       }
-    } else {
-      // Fallback to evenly spaced regular images
-      for (let i = 0; i < images.length; i++) {
-        const imgData = images[i].replace(/^data:image\/\w+;base64,/, "");
-        const imgBuffer = Buffer.from(imgData, 'base64');
-        const imgPath = path.join(tempDir, `image_${i.toString().padStart(3, '0')}.jpg`);
-        await fs.writeFile(imgPath, imgBuffer);
-        imagePaths.push(imgPath);
+      
+      // Save images
+      const imagePaths = [];
+      let timestamps: number[] = [];
+      const motions: MotionDescriptor[] = [];
+      
+      if (hasTimedImages) {
+        // Sort timedImages by timestamp
+        const sortedTimedImages = [...timedImages].sort((a, b) => a.timestamp - b.timestamp);
+      
+        console.log(`Processing ${sortedTimedImages.length} images for video generation`);
+      
+        for (let i = 0; i < sortedTimedImages.length; i++) {
+          const item = sortedTimedImages[i];
+          const imgData = item.imageBase64.replace(/^data:image\/\w+;base64,/, "");
+          const imgBuffer = Buffer.from(imgData, 'base64');
+          const imgPath = path.join(tempDir, `image_${i.toString().padStart(3, '0')}.jpg`);
+          await fs.writeFile(imgPath, imgBuffer);
+          imagePaths.push(imgPath);
+          timestamps.push(item.timestamp);
+          motions.push(normalizeMotion(item.motion));
+        }
+      } else {
+        // Fallback to evenly spaced regular images
+        for (let i = 0; i < images.length; i++) {
+          const imgData = images[i].replace(/^data:image\/\w+;base64,/, "");
+          const imgBuffer = Buffer.from(imgData, 'base64');
+          const imgPath = path.join(tempDir, `image_${i.toString().padStart(3, '0')}.jpg`);
+          await fs.writeFile(imgPath, imgBuffer);
+          imagePaths.push(imgPath);
         
-        // Calculate estimated timestamp for this image
-        const estimatedTimestamp = (i * duration) / images.length;
-        timestamps.push(estimatedTimestamp);
+          // Calculate estimated timestamp for this image
+          const estimatedTimestamp = (i * (voiceoverDuration || duration)) / images.length;
+          timestamps.push(estimatedTimestamp);
+          motions.push(normalizeMotion(null));
+        }
       }
-    }
-    
-    // Create FFmpeg input file for images with precise durations
-    const inputListPath = path.join(tempDir, "input.txt");
-    let inputListContent = "";
-    
-    // Calculate durations between timestamps
-    for (let i = 0; i < imagePaths.length; i++) {
-      const currentTime = timestamps[i];
-      const nextTime = i < imagePaths.length - 1 ? timestamps[i + 1] : duration;
-      const imageDuration = Math.max(nextTime - currentTime, 0.5); // Minimum 0.5 seconds per image
       
-      inputListContent += `file '${imagePaths[i]}'\nduration ${imageDuration}\n`;
-    }
-    
-    // Add the last image again (required by FFmpeg)
-    if (imagePaths.length > 0) {
-      inputListContent += `file '${imagePaths[imagePaths.length - 1]}'\n`;
-    }
-    
-    await fs.writeFile(inputListPath, inputListContent);
-    
-    // Output video path
-    const outputVideoPath = path.join(outputDir, `${videoId}.mp4`);
-    const publicVideoPath = `/videos/${videoId}.mp4`;
-    
-    // FFmpeg command for video creation
-    let ffmpegCommand;
-    
-    if (musicPath) {
-      // First, analyze the audio duration to apply proper fade-out
-      const analyzeVoiceoverCommand = `${process.env.FFMPEG_PATH?.replace('ffmpeg', 'ffprobe') || 'ffprobe'} -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 ${audioPath}`;
-      const { stdout: voiceoverDurationStr } = await execPromise(analyzeVoiceoverCommand);
-      const voiceoverDuration = parseFloat(voiceoverDurationStr.trim());
-
-      console.log(`Voiceover duration: ${voiceoverDuration} seconds, applying fade-out to music`);
+      // Mix the background music under the voiceover if we have it
+      let finalAudioPath = audioPath;
+      
+      throwIfCancelled(signal);
+      
+      if (musicPath) {
+        update({ stage: "Mixing background music" });
+        console.log(`Mixing music at ${musicMix.bedLevel} ${musicMix.ducking ? "with" : "without"} ducking, fading in ${musicMix.fadeIn}s and out ${musicMix.fadeOut}s`);
 
-      // Add fade-out effect to music at the end of the voiceover duration
-      // The 3 in afade=t=out:st=${voiceoverDuration-3}:d=3 means fade out over the last 3 seconds
-      const mixedAudioPath = path.join(tempDir, "mixed_audio.mp3");
+        // Fade the music in and out around the voiceover, optionally ducking it under speech
+        const mixedAudioPath = path.join(tempDir, "mixed_audio.mp3");
       
-      // First, mix the audio tracks
-      const mixAudioCommand = `${process.env.FFMPEG_PATH || 'ffmpeg'} -y -i ${audioPath} -i ${musicPath} -filter_complex "[1:a]volume=0.2,afade=t=out:st=${Math.max(0, voiceoverDuration-3)}:d=3[music];[0:a][music]amix=inputs=2:duration=longest" -c:a libmp3lame ${mixedAudioPath}`;
+        await mixAudio({
+          voiceoverPath: audioPath,
+          musicPath,
+          voiceoverDuration,
+          mix: musicMix,
+          outputPath: mixedAudioPath,
+        }, { signal });
+        finalAudioPath = mixedAudioPath;
+      }
       
-      console.log("Executing audio mix command:", mixAudioCommand);
-      await execPromise(mixAudioCommand);
+      // Bring the final mix to the platform's loudness target with a two-pass loudnorm
+      throwIfCancelled(signal);
+      update({ stage: "Normalizing loudness" });
+      const normalizedAudioPath = path.join(tempDir, "normalized_audio.wav");
+      const loudness = await normalizeLoudness(finalAudioPath, loudnessTarget, normalizedAudioPath, { signal });
+      if (loudness) {
+        console.log(`Normalized audio to ${loudness.integrated} LUFS integrated, ${loudness.truePeak} dBTP true peak (target ${LOUDNESS_TARGETS[loudnessTarget].integrated} LUFS)`);
+        finalAudioPath = normalizedAudioPath;
+      } else {
+        console.log("Audio too quiet to measure, leaving its loudness as it is");
+      }
       
-      // Then create the video with the mixed audio
-      ffmpegCommand = `${process.env.FFMPEG_PATH || 'ffmpeg'} -y -f concat -safe 0 -i ${inputListPath} -i ${mixedAudioPath} -c:v libx264 -vf "scale=1920:1080:force_original_aspect_ratio=1,setsar=1:1,zoompan=z='min(zoom+0.0015,1.05)':d=100:s=1920x1080" -pix_fmt yuv420p -preset fast -r 24 -c:a aac -b:a 192k -shortest ${outputVideoPath}`;
-    } else {
-      // Standard command with just the voiceover
-      ffmpegCommand = `${process.env.FFMPEG_PATH || 'ffmpeg'} -y -f concat -safe 0 -i ${inputListPath} -i ${audioPath} -c:v libx264 -vf "scale=1920:1080:force_original_aspect_ratio=1,setsar=1:1,zoompan=z='min(zoom+0.0015,1.05)':d=100:s=1920x1080" -pix_fmt yuv420p -preset fast -r 24 -c:a aac -b:a 192k -shortest ${outputVideoPath}`;
-    }
-    
-    console.log("Executing FFmpeg command:", ffmpegCommand);
-    
-    // Execute FFmpeg command
-    try {
-      const result = await execPromise(ffmpegCommand);
-      console.log("Video generation complete. Output info:", result.stdout);
-      
-      // Get video metadata to verify dimensions
-      const probeCommand = `${process.env.FFMPEG_PATH?.replace('ffmpeg', 'ffprobe') || 'ffprobe'} -v error -select_streams v:0 -show_entries stream=width,height -of csv=s=x:p=0 ${outputVideoPath}`;
-      const { stdout } = await execPromise(probeCommand);
-      console.log(`Generated video dimensions: ${stdout.trim()}`);
-      
-    } catch (error) {
-      console.error("FFmpeg execution error:", error);
-      throw error;
-    }
-    
-    // Return the URL to the generated video
-    return NextResponse.json({ 
-      videoUrl: publicVideoPath,
-      videoId: videoId
-    }, { status: 200 });
+      // Output video path
+      const outputVideoPath = path.join(outputDir, `${videoId}.mp4`);
+      const publicVideoPath = `/videos/${videoId}.mp4`;
+      
+      // Each image starts on screen at its timestamp; the first one covers the lead-in from 0
+      const startTimes: number[] = [];
+      for (let i = 0; i < timestamps.length; i++) {
+        startTimes.push(i === 0 ? 0 : Math.max(timestamps[i], startTimes[i - 1] + 0.5)); // Minimum 0.5 seconds per image
+      }
+      const totalDuration = Math.max(voiceoverDuration, startTimes[startTimes.length - 1] + 0.5);
+      
+      let filtergraph = buildSlideshowFiltergraph({
+        startTimes,
+        totalDuration,
+        motions,
+        transition,
+        width: format.width,
+        height: format.height,
+        fps: 24,
+      });
+      
+      let videoLabel = "vout";
+      
+      // Word timings of the script as spoken in the voiceover, for captions and sidecar subtitles.
+      // Prefer the alignment returned with the voiceover, otherwise recognise it from the audio.
+      const hasScript = typeof script === "string" && script.trim().length > 0;
+      const alignment = normalizeWordTimings(alignmentInput);
+      update({ stage: "Aligning captions" });
+      const { words, estimated: timingsEstimated } = !hasScript
+        ? { words: [], estimated: false }
+        : alignment.length > 0
+        ? { words: alignScriptToTimings(script, alignment, voiceoverDuration), estimated: false }
+        : await getScriptWordTimings(script, audioBuffer, voiceoverDuration);
+      
+      // Burn in captions timed to the voiceover
+      if (captions.enabled && words.length > 0) {
+        const subtitlesPath = path.join(tempDir, "captions.ass");
+        await fs.writeFile(subtitlesPath, buildAssSubtitles(words, captions, format.width, format.height));
+      
+        const fontsDir = brandFiles?.fontDir ? `:fontsdir=${escapeFilterPath(brandFiles.fontDir)}` : "";
+        filtergraph += `;\n[${videoLabel}]subtitles=filename=${escapeFilterPath(subtitlesPath)}${fontsDir}[vcaptions]`;
+        videoLabel = "vcaptions";
+        console.log(`Burning in ${words.length} caption words (${captions.mode} mode)`);
+      }
+      
+      // Title cards before and after the slideshow. Their background images are extra inputs
+      // after the slideshow's, and the audio is delayed and padded to line up with the cards.
+      const introDuration = intro.enabled ? intro.duration : 0;
+      const outroDuration = outro.enabled ? outro.duration : 0;
+      const extraInputPaths: string[] = [];
+      let audioLabel: string | undefined;
+      
+      if (intro.enabled || outro.enabled) {
+        for (const [name, card] of [["intro", intro], ["outro", outro]] as const) {
+          if (!card.enabled) continue;
+          
+          let imageInput: number | null = null;
+          if (card.backgroundImage) {
+            const cardImagePath = path.join(tempDir, `${name}_background.jpg`);
+            await fs.writeFile(cardImagePath, Buffer.from(card.backgroundImage.replace(/^data:image\/\w+;base64,/, ""), 'base64'));
+            imageInput = imagePaths.length + extraInputPaths.length;
+            extraInputPaths.push(cardImagePath);
+          }
+          
+          const textPath = card.text ? path.join(tempDir, `${name}_text.txt`) : null;
+          const subtitlePath = card.subtitle ? path.join(tempDir, `${name}_subtitle.txt`) : null;
+          if (textPath) await fs.writeFile(textPath, card.text);
+          if (subtitlePath) await fs.writeFile(subtitlePath, card.subtitle);
+          
+          filtergraph += `;\n${buildTitleCardFilter({
+            card,
+            imageInput,
+            textPath,
+            subtitlePath,
+            fontPath: brandFiles?.fontPath ?? null,
+            width: format.width,
+            height: format.height,
+            fps: 24,
+            label: name,
+          })}`;
+        }
+        
+        const segments = [intro.enabled && "[intro]", `[${videoLabel}]`, outro.enabled && "[outro]"].filter(Boolean);
+        filtergraph += `;\n${segments.join("")}concat=n=${segments.length}:v=1:a=0[vcards]`;
+        videoLabel = "vcards";
+        console.log(`Adding title cards: intro ${introDuration}s, outro ${outroDuration}s`);
+      }
+      
+      // Brand kit logo in a corner of the whole video, title cards included
+      if (brandKit && brandFiles?.logoPath) {
+        filtergraph += `;\n${buildWatermarkFilter({
+          videoLabel,
+          logoInput: imagePaths.length + extraInputPaths.length,
+          position: brandKit.watermarkPosition,
+          opacity: brandKit.watermarkOpacity,
+          width: format.width,
+          label: "vbrand",
+        })}`;
+        extraInputPaths.push(brandFiles.logoPath);
+        videoLabel = "vbrand";
+        console.log(`Watermarking with the "${brandKit.name}" logo`);
+      }
+      
+      // The audio input comes after all the image inputs
+      if (introDuration > 0 || outroDuration > 0) {
+        const audioInput = imagePaths.length + extraInputPaths.length;
+        filtergraph += `;\n[${audioInput}:a]adelay=${Math.round(introDuration * 1000)}:all=1,apad=pad_dur=${outroDuration}[aout]`;
+        audioLabel = "aout";
+      }
+      
+      const videoDuration = introDuration + totalDuration + outroDuration;
+      
+      // Write the graph to a file, it gets too long for the command line with many images
+      const filtergraphPath = path.join(tempDir, "filtergraph.txt");
+      await fs.writeFile(filtergraphPath, filtergraph);
+      
+      console.log(`Rendering ${imagePaths.length} images at ${format.width}x${format.height} with ${transition.type} transitions (${transition.duration}s)`);
+      
+      throwIfCancelled(signal);
+      update({ stage: "Rendering video", totalSeconds: videoDuration });
+      
+      // Render the video, reporting the encoded frames and time as progress
+      try {
+        await renderVideo({
+          imagePaths: [...imagePaths, ...extraInputPaths],
+          audioPath: finalAudioPath,
+          filtergraphPath,
+          videoLabel,
+          audioLabel,
+          fps: 24,
+          outputPath: outputVideoPath,
+        }, videoDuration, progress => update(progress), { signal });
+        console.log("Video generation complete");
+      
+        // Get video metadata to verify dimensions
+        console.log(`Generated video dimensions: ${await probeVideoSize(outputVideoPath)}`);
+      
+      } catch (error) {
+        console.error("FFmpeg execution error:", error);
+        await fs.rm(outputVideoPath, { force: true });
+        throw error;
+      }
+      
+      // Write SRT and WebVTT sidecars next to the video, shifted past the intro card
+      update({ stage: "Writing subtitles" });
+      let subtitles = null;
+      if (words.length > 0) {
+        const cues = buildSubtitleCues(words.map(word => ({
+          ...word,
+          start: word.start + introDuration,
+          end: word.end + introDuration,
+        })));
+        await fs.writeFile(path.join(outputDir, `${videoId}.srt`), buildSrt(cues));
+        await fs.writeFile(path.join(outputDir, `${videoId}.vtt`), buildVtt(cues));
+        subtitles = {
+          srtUrl: `/videos/${videoId}.srt`,
+          vttUrl: `/videos/${videoId}.vtt`,
+          // Spread evenly over the voiceover because it couldn't be transcribed
+          estimated: timingsEstimated,
+        };
+        console.log(`Wrote ${cues.length} subtitle cues`);
+      }
+      
+      // The job's result, the URL to the generated video
+      return {
+        videoUrl: publicVideoPath,
+        videoId: videoId,
+        subtitles,
+        loudness,
+        aspectRatio,
+        width: format.width,
+        height: format.height,
+        // Where the voiceover and scenes sit in the video, for chapter markers
+        timeline: {
+          introDuration,
+          voiceoverDuration: totalDuration,
+          sceneStarts: startTimes,
+        },
+      };
+    });
+
+    console.log(`Queued render job ${job.id}`);
+    return NextResponse.json({ jobId: job.id }, { status: 202 });
     
   } catch (error) {
     console.error("Error generating video:", error);
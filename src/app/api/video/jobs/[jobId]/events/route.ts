@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { RenderJob, getRenderJob, subscribeToRenderJob } from "@/lib/video/renderJobs";
+
+export const dynamic = "force-dynamic";
+
+// Server-sent events with the job's status and progress, closed once the job finishes
+export async function GET(request: Request, { params }: { params: { jobId: string } }) {
+  const job = getRenderJob(params.jobId);
+  if (!job) {
+    return NextResponse.json(
+      { error: "Render job not found" },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const send = (update: RenderJob) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(update)}\n\n`));
+
+        if (update.status !== "queued" && update.status !== "running") {
+          closed = true;
+          unsubscribe();
+          controller.close();
+        }
+      };
+
+      unsubscribe = subscribeToRenderJob(params.jobId, send);
+      send(job);
+
+      request.signal.addEventListener("abort", () => {
+        closed = true;
+        unsubscribe();
+      });
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
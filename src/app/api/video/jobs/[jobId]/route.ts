@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { cancelRenderJob, getRenderJob } from "@/lib/video/renderJobs";
+
+export const dynamic = "force-dynamic";
+
+// Status of a render job, with the video once it has completed
+export async function GET(request: Request, { params }: { params: { jobId: string } }) {
+  const job = getRenderJob(params.jobId);
+  if (!job) {
+    return NextResponse.json(
+      { error: "Render job not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(job);
+}
+
+// Cancel a queued or running render job
+export async function DELETE(request: Request, { params }: { params: { jobId: string } }) {
+  if (!getRenderJob(params.jobId)) {
+    return NextResponse.json(
+      { error: "Render job not found" },
+      { status: 404 }
+    );
+  }
+
+  if (!cancelRenderJob(params.jobId)) {
+    return NextResponse.json(
+      { error: "Render job has already finished" },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ cancelled: true });
+}
@@ -0,0 +1,207 @@
+import { NextResponse } from "next/server";
+import Replicate from "replicate";
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import {
+  THUMBNAIL_HEIGHT,
+  THUMBNAIL_VARIANTS,
+  THUMBNAIL_WIDTH,
+  Thumbnail,
+  buildThumbnailFilter,
+  normalizeThumbnailSource,
+  parseThumbnailIdeas,
+  scoreThumbnailFrame,
+  splitHeadline,
+} from "@/lib/video/thumbnails";
+import { getBrandKit, getBrandKitFiles } from "@/lib/video/brandKitStore";
+import { measureImageStats, renderThumbnail } from "@/lib/video/ffmpeg";
+
+const replicate = new Replicate({
+  auth: process.env.REPLICATE_API_TOKEN,
+});
+
+// Ask the model for hook headlines, and a prompt for a dedicated image when one is needed
+async function generateThumbnailIdeas(script: string) {
+  const modelId = process.env.OPENROUTER_MODEL_ID || "google/gemini-2.0-flash-001";
+
+  const systemPrompt = `
+    You are a YouTube thumbnail expert. Your task is to write thumbnail headlines and an image prompt for a video.
+
+    Based on the script provided:
+    1. Write ${THUMBNAIL_VARIANTS} different hook headlines of 3 to 5 words each
+    2. Make them punchy, curiosity-driven and easy to read at a glance
+    3. Write one detailed image prompt for a striking 16:9 thumbnail background that leaves room for text
+
+    Format your response as a JSON object: {"headlines": ["...", "..."], "imagePrompt": "..."}
+    DO NOT include explanations, just provide the JSON.
+    `;
+
+  const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${process.env.OPENROUTER_API_KEY}`,
+      "HTTP-Referer": "https://www.futureai.dev",
+      "X-Title": "AI Video Creator"
+    },
+    body: JSON.stringify({
+      model: modelId,
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt
+        },
+        {
+          role: "user",
+          content: `Write thumbnail headlines for a video narrating this script:
+
+          ${script}`
+        }
+      ]
+    })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to generate thumbnail headlines");
+  }
+
+  const data = await response.json();
+
+  if (!data.choices || !data.choices[0] || !data.choices[0].message || !data.choices[0].message.content) {
+    throw new Error("Invalid response from OpenRouter API");
+  }
+
+  return parseThumbnailIdeas(data.choices[0].message.content);
+}
+
+// A dedicated 16:9 image for the thumbnail from the Replicate model
+async function generateThumbnailImage(prompt: string, outputPath: string) {
+  if (!process.env.REPLICATE_API_TOKEN) {
+    throw new Error(
+      "The REPLICATE_API_TOKEN environment variable is not set. See README.md for instructions on how to set it."
+    );
+  }
+
+  const output = await replicate.run(
+    (process.env.REPLICATE_IMAGE_MODEL_ID || "black-forest-labs/flux-schnell") as `${string}/${string}`,
+    {
+      input: {
+        prompt: `${prompt} | 16:9 aspect ratio, bold composition, vivid colours, high contrast`,
+        width: THUMBNAIL_WIDTH,
+        height: THUMBNAIL_HEIGHT,
+        aspect_ratio: "16:9",
+        num_outputs: 1,
+        num_inference_steps: 4,
+        guidance_scale: 8,
+        negative_prompt: "blurry, low quality, low resolution, text, watermark, signature, label, words, characters",
+      },
+    }
+  );
+
+  const imageUrl = Array.isArray(output) && output.length > 0 ? output[0] : null;
+  if (!imageUrl) {
+    throw new Error("Failed to generate a thumbnail image");
+  }
+
+  const imageResponse = await fetch(imageUrl);
+  if (!imageResponse.ok) {
+    throw new Error(`Failed to download the thumbnail image: ${imageResponse.statusText}`);
+  }
+  await fs.writeFile(outputPath, Buffer.from(await imageResponse.arrayBuffer()));
+}
+
+// Thumbnail variants for a video: the strongest frames from its timed images, or a generated
+// image, each with a hook headline
+export async function POST(request: Request) {
+  const { script, timedImages, source: sourceInput, brandKitId } = await request.json();
+
+  if (!process.env.OPENROUTER_API_KEY) {
+    return NextResponse.json(
+      { error: "OPENROUTER_API_KEY is not set" },
+      { status: 500 }
+    );
+  }
+
+  if (!script) {
+    return NextResponse.json(
+      { error: "Script is required" },
+      { status: 400 }
+    );
+  }
+
+  const frames: string[] = Array.isArray(timedImages)
+    ? timedImages.map((image: any) => image?.imageBase64).filter((image: any) => typeof image === "string")
+    : [];
+  // Without frames to choose from the thumbnail needs its own image
+  const source = frames.length > 0 ? normalizeThumbnailSource(sourceInput) : "generate";
+
+  const thumbnailId = randomUUID();
+  const publicDir = path.join(process.cwd(), "public");
+  const tempDir = path.join(publicDir, "temp", `thumbnail-${thumbnailId}`);
+  const outputDir = path.join(publicDir, "thumbnails");
+
+  try {
+    await fs.mkdir(tempDir, { recursive: true });
+    await fs.mkdir(outputDir, { recursive: true });
+
+    const brandKit = brandKitId ? await getBrandKit(brandKitId) : null;
+    const fontPath = brandKit ? getBrandKitFiles(brandKit).fontPath : null;
+
+    const ideas = await generateThumbnailIdeas(script);
+    if (ideas.headlines.length === 0) {
+      throw new Error("No usable headlines were generated");
+    }
+    console.log(`Thumbnail headlines: ${ideas.headlines.join(" | ")}`);
+
+    // Background images, best first
+    let backgrounds: string[];
+    if (source === "generate") {
+      const imagePath = path.join(tempDir, "generated.jpg");
+      await generateThumbnailImage(ideas.imagePrompt || ideas.headlines[0], imagePath);
+      backgrounds = [imagePath];
+    } else {
+      const scored = [];
+      for (let i = 0; i < frames.length; i++) {
+        const imagePath = path.join(tempDir, `frame_${i.toString().padStart(3, '0')}.jpg`);
+        await fs.writeFile(imagePath, Buffer.from(frames[i].replace(/^data:image\/\w+;base64,/, ""), 'base64'));
+        scored.push({ imagePath, score: scoreThumbnailFrame(await measureImageStats(imagePath)) });
+      }
+      scored.sort((a, b) => b.score - a.score);
+      backgrounds = scored.slice(0, THUMBNAIL_VARIANTS).map(frame => frame.imagePath);
+    }
+
+    const thumbnails: Thumbnail[] = [];
+    for (let variant = 0; variant < THUMBNAIL_VARIANTS; variant++) {
+      const headline = ideas.headlines[variant % ideas.headlines.length];
+      const lines = splitHeadline(headline);
+      const linePaths = lines.map((_, i) => path.join(tempDir, `headline_${variant}_${i}.txt`));
+      await Promise.all(lines.map((line, i) => fs.writeFile(linePaths[i], line)));
+
+      const fileName = `${thumbnailId}-${variant + 1}.jpg`;
+      await renderThumbnail(
+        backgrounds[variant % backgrounds.length],
+        buildThumbnailFilter({
+          linePaths,
+          longestLine: Math.max(...lines.map(line => line.length)),
+          variant,
+          fontPath,
+        }),
+        path.join(outputDir, fileName)
+      );
+
+      thumbnails.push({ url: `/thumbnails/${fileName}`, headline, source });
+    }
+
+    return NextResponse.json({ thumbnails }, { status: 200 });
+  } catch (error) {
+    console.error("Error generating thumbnails:", error);
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    );
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
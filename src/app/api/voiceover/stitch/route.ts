@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { layoutChunks } from "@/lib/voiceover/chunks";
+import { normalizeClips } from "@/lib/voiceover/clips";
+import {
+  buildPaceFilter,
+  buildTrimStartFilter,
+  normalizePacingSettings,
+  paceWordTimings,
+} from "@/lib/voiceover/pacing";
+import { filterAudio, joinAudio, probeDuration } from "@/lib/video/ffmpeg";
+
+// Join a voiceover's paragraph clips back into one track, after one of them was rendered
+// again or to pace it. With `pacing` every clip is trimmed and sped up before the join and
+// the paragraphs are set apart by a fixed pause. Responds like text-to-speech with the new
+// place of every paragraph and the track's duration.
+export async function POST(request: Request) {
+  const { clips: clipsInput, pacing: pacingInput } = await request.json();
+  const clips = normalizeClips(clipsInput);
+  const pacing = pacingInput ? normalizePacingSettings(pacingInput) : null;
+
+  if (clips.length === 0) {
+    return NextResponse.json(
+      { error: "There are no clips to stitch" },
+      { status: 400 }
+    );
+  }
+
+  const tempDir = path.join(process.cwd(), "public", "temp", `stitch-${randomUUID()}`);
+
+  try {
+    await fs.mkdir(tempDir, { recursive: true });
+
+    const clipPaths: string[] = [];
+    const durations: number[] = [];
+    const alignments = clips.map(clip => clip.alignment);
+
+    for (let i = 0; i < clips.length; i++) {
+      const name = `clip_${i.toString().padStart(3, '0')}`;
+      let clipPath = path.join(tempDir, `${name}.mp3`);
+      await fs.writeFile(clipPath, Buffer.from(clips[i].audioBase64, 'base64'));
+
+      if (pacing) {
+        // How much the start lost, to move the word timings back by
+        let trimmed = 0;
+        if (pacing.trimSilence) {
+          const untrimmed = await probeDuration(clipPath);
+          const trimmedPath = path.join(tempDir, `${name}_start.wav`);
+          await filterAudio(clipPath, buildTrimStartFilter(pacing), trimmedPath);
+          trimmed = Math.max(0, untrimmed - await probeDuration(trimmedPath));
+          clipPath = trimmedPath;
+        }
+
+        const paceFilter = buildPaceFilter(pacing);
+        if (paceFilter) {
+          const pacedPath = path.join(tempDir, `${name}_paced.wav`);
+          await filterAudio(clipPath, paceFilter, pacedPath);
+          clipPath = pacedPath;
+        }
+
+        const duration = await probeDuration(clipPath);
+        alignments[i] = paceWordTimings(alignments[i], trimmed, pacing.tempo, duration);
+        durations.push(duration);
+      } else {
+        durations.push(await probeDuration(clipPath));
+      }
+
+      clipPaths.push(clipPath);
+    }
+
+    const gap = pacing ? pacing.paragraphPause : 0;
+    let audioBase64 = clips[0].audioBase64;
+    if (clips.length > 1 || pacing) {
+      const outputPath = path.join(tempDir, "voiceover.mp3");
+      await joinAudio(clipPaths, gap, outputPath);
+      audioBase64 = (await fs.readFile(outputPath)).toString('base64');
+    }
+
+    const layout = layoutChunks(clips.map(clip => clip.text), durations, alignments, gap);
+    const last = layout.chunks[layout.chunks.length - 1];
+
+    return NextResponse.json({
+      audioBase64,
+      alignment: layout.alignment,
+      chunks: layout.chunks,
+      duration: last.end,
+    }, {
+      status: 200
+    });
+  } catch (error) {
+    console.error("Error stitching voiceover:", error);
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    );
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
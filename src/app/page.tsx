@@ -10,21 +10,46 @@ import TimedImageGeneration from "../components/TimedImageGeneration";
 import MusicGeneration from "../components/MusicGeneration";
 import VideoGeneration from "../components/VideoGeneration";
 import VideoPreview from "../components/VideoPreview";
+import PublishKitGeneration from "../components/PublishKitGeneration";
 import ProgressStepper from "../components/ProgressStepper";
 import { Toaster } from "react-hot-toast";
+import { DEFAULT_TRANSITION, TransitionSettings } from "../lib/video/transitions";
+import { MotionDescriptor } from "../lib/video/motion";
+import { AspectRatio, DEFAULT_ASPECT_RATIO } from "../lib/video/aspectRatio";
+import { CaptionSettings, DEFAULT_CAPTIONS } from "../lib/video/captions";
+import { DEFAULT_MUSIC_MIX, MusicMixSettings } from "../lib/video/musicMix";
+import { DEFAULT_LOUDNESS_TARGET, LoudnessTarget } from "../lib/video/loudness";
+import { DEFAULT_INTRO, DEFAULT_OUTRO, TitleCardSettings } from "../lib/video/titleCards";
+import { DEFAULT_SCRIPT_MODE, ScriptMode } from "../lib/voiceover/dialogue";
+import { DEFAULT_VOICE_SETTINGS, VoiceSettings } from "../lib/voiceover/voiceSettings";
+import { DEFAULT_TTS_PROVIDER, TtsProviderId } from "../lib/voiceover/ttsProviders";
+import { remapTimestamp } from "../lib/voiceover/clips";
+import { DEFAULT_SCRIPT_STYLE, ScriptStyle } from "../lib/voiceover/scriptStyle";
 
 export default function Home() {
   // Define the workflow states
   const [currentStep, setCurrentStep] = useState(0);
   const [videoIdea, setVideoIdea] = useState("");
   const [videoDuration, setVideoDuration] = useState(1); // Default 1 minute
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [scriptMode, setScriptMode] = useState<ScriptMode>(DEFAULT_SCRIPT_MODE);
+  const [scriptStyle, setScriptStyle] = useState<ScriptStyle>(DEFAULT_SCRIPT_STYLE);
   const [scriptData, setScriptData] = useState<any>(null);
   const [voiceoverData, setVoiceoverData] = useState<any>(null);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+  const [ttsProvider, setTtsProvider] = useState<TtsProviderId>(DEFAULT_TTS_PROVIDER);
   const [imagePrompts, setImagePrompts] = useState<any[]>([]);
-  const [timedImages, setTimedImages] = useState<{ timestamp: number; imageBase64: string }[]>([]);
+  const [timedImages, setTimedImages] = useState<{ timestamp: number; imageBase64: string; motion?: MotionDescriptor }[]>([]);
   const [imageData, setImageData] = useState<string[]>([]);
   const [musicData, setMusicData] = useState<{ musicUrl: string; musicPrompt: string } | null>(null);
   const [videoData, setVideoData] = useState<any>(null);
+  const [transition, setTransition] = useState<TransitionSettings>(DEFAULT_TRANSITION);
+  const [captions, setCaptions] = useState<CaptionSettings>(DEFAULT_CAPTIONS);
+  const [musicMix, setMusicMix] = useState<MusicMixSettings>(DEFAULT_MUSIC_MIX);
+  const [loudnessTarget, setLoudnessTarget] = useState<LoudnessTarget>(DEFAULT_LOUDNESS_TARGET);
+  const [intro, setIntro] = useState<TitleCardSettings>(DEFAULT_INTRO);
+  const [outro, setOutro] = useState<TitleCardSettings>(DEFAULT_OUTRO);
+  const [brandKitId, setBrandKitId] = useState<string | null>(null);
 
   // Steps of the workflow
   const steps = [
@@ -34,12 +59,17 @@ export default function Home() {
     "Image Generation",
     "Music Generation",
     "Video Creation",
+    "Preview",
+    "Publish",
   ];
 
   // Handle form submission for video idea
-  const handleVideoIdeaSubmit = (idea: string, duration: number) => {
+  const handleVideoIdeaSubmit = (idea: string, duration: number, ratio: AspectRatio, mode: ScriptMode, style: ScriptStyle) => {
     setVideoIdea(idea);
     setVideoDuration(duration);
+    setAspectRatio(ratio);
+    setScriptMode(mode);
+    setScriptStyle(style);
     setCurrentStep(1);
   };
 
@@ -52,18 +82,47 @@ export default function Home() {
   // Handle voiceover generation completion
   const handleVoiceoverGenerated = (data: any) => {
     setVoiceoverData(data);
-    // Update script data if it was edited in the voiceover generation step
-    if (data.script && data.script !== scriptData.script) {
+    // Going back to the voiceover step starts from the engine and settings this audio was rendered with
+    setVoiceSettings(data.voiceSettings);
+    setTtsProvider(data.ttsProvider);
+    if (data.dialogue) {
+      // A dialogue continues with the spoken words as its script, keeping the labelled
+      // lines for going back to the voiceover step
+      setScriptData({
+        ...scriptData,
+        script: data.script,
+        dialogueScript: data.dialogue.script
+      });
+    } else if (data.script && data.script !== scriptData.script) {
+      // Update script data if it was edited in the voiceover generation step
       setScriptData({
         ...scriptData,
         script: data.script
       });
     }
+
+    // A narration that was only re-stitched from its clips, some paragraphs rendered again or
+    // paced, keeps its images, moved to where their paragraphs now sit. Anything else, and an
+    // edit that changed the number of paragraphs, generates the images again.
+    const previousTimings = voiceoverData?.chunks;
+    if (
+      timedImages.length > 0 &&
+      data.restitched &&
+      previousTimings?.length &&
+      previousTimings.length === data.chunks?.length
+    ) {
+      setTimedImages(timedImages.map(image => ({
+        ...image,
+        timestamp: remapTimestamp(image.timestamp, previousTimings, data.chunks),
+      })));
+      setCurrentStep(4);
+      return;
+    }
     setCurrentStep(3);
   };
 
   // Handle timed images generation completion
-  const handleTimedImagesGenerated = (images: { timestamp: number; imageBase64: string }[]) => {
+  const handleTimedImagesGenerated = (images: { timestamp: number; imageBase64: string; motion?: MotionDescriptor }[]) => {
     setTimedImages(images);
     
     // Extract just the base64 images for the video generation step
@@ -89,13 +148,24 @@ export default function Home() {
   const handleReset = () => {
     setVideoIdea("");
     setVideoDuration(1);
+    setAspectRatio(DEFAULT_ASPECT_RATIO);
+    setScriptMode(DEFAULT_SCRIPT_MODE);
+    setScriptStyle(DEFAULT_SCRIPT_STYLE);
     setScriptData(null);
     setVoiceoverData(null);
+    setVoiceSettings(DEFAULT_VOICE_SETTINGS);
+    setTtsProvider(DEFAULT_TTS_PROVIDER);
     setImagePrompts([]);
     setTimedImages([]);
     setImageData([]);
     setMusicData(null);
     setVideoData(null);
+    setTransition(DEFAULT_TRANSITION);
+    setCaptions(DEFAULT_CAPTIONS);
+    setMusicMix(DEFAULT_MUSIC_MIX);
+    setLoudnessTarget(DEFAULT_LOUDNESS_TARGET);
+    setIntro(DEFAULT_INTRO);
+    setOutro(DEFAULT_OUTRO);
     setCurrentStep(0);
   };
 
@@ -142,6 +212,8 @@ export default function Home() {
             <ScriptGeneration 
               videoIdea={videoIdea}
               videoDuration={videoDuration}
+              scriptMode={scriptMode}
+              scriptStyle={scriptStyle}
               onScriptGenerated={handleScriptGenerated}
               onBack={() => setCurrentStep(0)}
             />
@@ -149,7 +221,13 @@ export default function Home() {
           
           {currentStep === 2 && scriptData && (
             <VoiceoverGeneration 
-              script={scriptData.script} 
+              script={scriptData.dialogueScript || scriptData.script} 
+              scriptMode={scriptMode}
+              voiceover={voiceoverData?.clips ? voiceoverData : undefined}
+              ttsProvider={ttsProvider}
+              onTtsProviderChange={setTtsProvider}
+              voiceSettings={voiceSettings}
+              onVoiceSettingsChange={setVoiceSettings}
               onVoiceoverGenerated={handleVoiceoverGenerated}
               onBack={() => setCurrentStep(1)}
               autoGenerate={false}
@@ -160,6 +238,8 @@ export default function Home() {
             <TimedImageGeneration 
               script={scriptData.script}
               audioBase64={voiceoverData.audioBase64}
+              alignment={voiceoverData.alignment}
+              aspectRatio={aspectRatio}
               onImagesGenerated={handleTimedImagesGenerated}
               onBack={() => setCurrentStep(2)}
             />
@@ -169,6 +249,8 @@ export default function Home() {
             <MusicGeneration 
               script={scriptData.script}
               audioBase64={voiceoverData.audioBase64}
+              musicMix={musicMix}
+              onMusicMixChange={setMusicMix}
               onMusicGenerated={handleMusicGenerated}
               onBack={() => setCurrentStep(3)}
             />
@@ -178,8 +260,24 @@ export default function Home() {
             <VideoGeneration 
               images={imageData} 
               audioBase64={voiceoverData.audioBase64}
+              script={scriptData.script}
+              alignment={voiceoverData.alignment}
               timedImages={timedImages}
+              aspectRatio={aspectRatio}
               backgroundMusic={musicData.musicUrl}
+              musicMix={musicMix}
+              loudnessTarget={loudnessTarget}
+              onLoudnessTargetChange={setLoudnessTarget}
+              transition={transition}
+              onTransitionChange={setTransition}
+              captions={captions}
+              onCaptionsChange={setCaptions}
+              intro={intro}
+              onIntroChange={setIntro}
+              outro={outro}
+              onOutroChange={setOutro}
+              brandKitId={brandKitId}
+              onBrandKitChange={setBrandKitId}
               onVideoGenerated={handleVideoGenerated}
               onBack={() => setCurrentStep(4)}
             />
@@ -188,6 +286,24 @@ export default function Home() {
           {currentStep === 6 && videoData && (
             <VideoPreview 
               videoUrl={videoData.videoUrl} 
+              aspectRatio={videoData.aspectRatio || aspectRatio}
+              subtitles={videoData.subtitles}
+              loudness={videoData.loudness}
+              script={scriptData.script}
+              timedImages={timedImages}
+              brandKitId={brandKitId}
+              onPublish={videoData.timeline ? () => setCurrentStep(7) : undefined}
+              onReset={handleReset}
+            />
+          )}
+          
+          {currentStep === 7 && videoData?.timeline && (
+            <PublishKitGeneration 
+              videoId={videoData.videoId}
+              script={scriptData.script}
+              alignment={voiceoverData.alignment}
+              timeline={videoData.timeline}
+              onBack={() => setCurrentStep(6)}
               onReset={handleReset}
             />
           )}
@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from "react";
+import toast from "react-hot-toast";
+import {
+  BrandKit,
+  BrandKitSettings,
+  DEFAULT_BRAND_KIT_SETTINGS,
+  WATERMARK_POSITIONS,
+  WatermarkPosition,
+} from "../lib/video/brandKit";
+import ImageUpload from "./ImageUpload";
+
+interface BrandKitOptionsProps {
+  brandKitId: string | null;
+  onChange: (brandKitId: string | null) => void;
+}
+
+// Read a file as a data URL for uploading in a JSON body
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const BrandKitOptions: React.FC<BrandKitOptionsProps> = ({ brandKitId, onChange }) => {
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [settings, setSettings] = useState<BrandKitSettings>(DEFAULT_BRAND_KIT_SETTINGS);
+  const [logo, setLogo] = useState<File | null>(null);
+  const [font, setFont] = useState<File | null>(null);
+
+  useEffect(() => {
+    fetch("/api/brand-kits")
+      .then((response) => response.json())
+      .then((data) => setBrandKits(data.brandKits || []))
+      .catch((error) => console.error("Error loading brand kits:", error));
+  }, []);
+
+  const selectedKit = brandKits.find((kit) => kit.id === brandKitId) || null;
+  const update = (changes: Partial<BrandKitSettings>) => setSettings({ ...settings, ...changes });
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/brand-kits", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...settings,
+          logo: logo ? await readAsDataUrl(logo) : null,
+          font: font ? { fileName: font.name, data: await readAsDataUrl(font) } : null,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save brand kit");
+      }
+
+      setBrandKits([...brandKits, data.brandKit]);
+      onChange(data.brandKit.id);
+      setCreating(false);
+      setSettings(DEFAULT_BRAND_KIT_SETTINGS);
+      setLogo(null);
+      setFont(null);
+      toast.success(`Brand kit "${data.brandKit.name}" saved`);
+    } catch (err: any) {
+      console.error("Error saving brand kit:", err);
+      toast.error(err.message || "Failed to save brand kit");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedKit) return;
+
+    try {
+      const response = await fetch(`/api/brand-kits/${selectedKit.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete brand kit");
+      }
+
+      setBrandKits(brandKits.filter((kit) => kit.id !== selectedKit.id));
+      onChange(null);
+    } catch (err: any) {
+      console.error("Error deleting brand kit:", err);
+      toast.error(err.message || "Failed to delete brand kit");
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-medium text-white">Brand Kit</h3>
+        {!creating && (
+          <button
+            type="button"
+            onClick={() => setCreating(true)}
+            className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors"
+          >
+            New brand kit
+          </button>
+        )}
+      </div>
+
+      {!creating && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <select
+              id="brandKit"
+              value={brandKitId || ""}
+              onChange={(e) => onChange(e.target.value || null)}
+              className="flex-1 p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+            >
+              <option value="">None</option>
+              {brandKits.map((kit) => (
+                <option key={kit.id} value={kit.id}>{kit.name}</option>
+              ))}
+            </select>
+            {selectedKit && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-red-600 transition-colors"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+
+          {selectedKit && (
+            <div className="flex items-center gap-3 text-xs text-gray-400">
+              {selectedKit.logoUrl && (
+                <img src={selectedKit.logoUrl} alt={`${selectedKit.name} logo`} className="h-8 w-auto rounded" />
+              )}
+              <span className="inline-block w-4 h-4 rounded" style={{ backgroundColor: selectedKit.primaryColor }} />
+              <span className="inline-block w-4 h-4 rounded border border-gray-600" style={{ backgroundColor: selectedKit.secondaryColor }} />
+              <span>{selectedKit.fontFamily || "Default font"}</span>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            The brand kit&apos;s logo, font and colours override the caption and title card styles
+          </p>
+        </div>
+      )}
+
+      {creating && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="brandKitName" className="block text-sm text-gray-400 mb-1">Name</label>
+            <input
+              type="text"
+              id="brandKitName"
+              value={settings.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="brandKitFont" className="block text-sm text-gray-400 mb-1">Font (.ttf or .otf)</label>
+            <input
+              type="file"
+              id="brandKitFont"
+              accept=".ttf,.otf"
+              onChange={(e) => setFont(e.target.files?.[0] || null)}
+              className="w-full text-sm text-gray-400"
+            />
+          </div>
+
+          <div className="md:col-span-2">
+            <span className="block text-sm text-gray-400 mb-1">Logo</span>
+            <ImageUpload onImageChange={setLogo} />
+          </div>
+
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label htmlFor="brandKitPrimaryColor" className="block text-sm text-gray-400 mb-1">Primary colour</label>
+              <input
+                type="color"
+                id="brandKitPrimaryColor"
+                value={settings.primaryColor}
+                onChange={(e) => update({ primaryColor: e.target.value })}
+                className="w-full h-9 bg-gray-800 border border-gray-700 rounded-md"
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="brandKitSecondaryColor" className="block text-sm text-gray-400 mb-1">Secondary colour</label>
+              <input
+                type="color"
+                id="brandKitSecondaryColor"
+                value={settings.secondaryColor}
+                onChange={(e) => update({ secondaryColor: e.target.value })}
+                className="w-full h-9 bg-gray-800 border border-gray-700 rounded-md"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="brandKitPosition" className="block text-sm text-gray-400 mb-1">Watermark position</label>
+            <select
+              id="brandKitPosition"
+              value={settings.watermarkPosition}
+              onChange={(e) => update({ watermarkPosition: e.target.value as WatermarkPosition })}
+              className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+            >
+              {WATERMARK_POSITIONS.map((position) => (
+                <option key={position.value} value={position.value}>{position.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="brandKitOpacity" className="block text-sm text-gray-400 mb-1">
+              Watermark opacity: {Math.round(settings.watermarkOpacity * 100)}%
+            </label>
+            <input
+              type="range"
+              id="brandKitOpacity"
+              min="0.1"
+              max="1"
+              step="0.05"
+              value={settings.watermarkOpacity}
+              onChange={(e) => update({ watermarkOpacity: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div className="md:col-span-2 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setCreating(false)}
+              className="py-2 px-4 bg-gray-700 text-gray-300 rounded-md text-sm hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save brand kit"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandKitOptions;
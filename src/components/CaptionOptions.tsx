@@ -0,0 +1,137 @@
+import React from "react";
+import {
+  CaptionSettings,
+  CaptionMode,
+  CaptionPosition,
+  CAPTION_FONTS,
+  CAPTION_POSITIONS,
+} from "../lib/video/captions";
+
+interface CaptionOptionsProps {
+  captions: CaptionSettings;
+  onChange: (captions: CaptionSettings) => void;
+}
+
+const CaptionOptions: React.FC<CaptionOptionsProps> = ({ captions, onChange }) => {
+  const update = (changes: Partial<CaptionSettings>) => onChange({ ...captions, ...changes });
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-medium text-white">Captions</h3>
+        <label className="inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            className="sr-only peer"
+            checked={captions.enabled}
+            onChange={() => update({ enabled: !captions.enabled })}
+          />
+          <div className="relative w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          <span className="ml-3 text-sm font-medium text-gray-300">Burn in captions</span>
+        </label>
+      </div>
+
+      {captions.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="captionMode" className="block text-sm text-gray-400 mb-1">Style</label>
+            <select
+              id="captionMode"
+              value={captions.mode}
+              onChange={(e) => update({ mode: e.target.value as CaptionMode })}
+              className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+            >
+              <option value="word">Word by word (highlight spoken word)</option>
+              <option value="phrase">Phrase by phrase</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="captionFont" className="block text-sm text-gray-400 mb-1">Font</label>
+            <select
+              id="captionFont"
+              value={captions.font}
+              onChange={(e) => update({ font: e.target.value })}
+              className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+            >
+              {CAPTION_FONTS.map((font) => (
+                <option key={font} value={font}>{font}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="captionPosition" className="block text-sm text-gray-400 mb-1">Position</label>
+            <select
+              id="captionPosition"
+              value={captions.position}
+              onChange={(e) => update({ position: e.target.value as CaptionPosition })}
+              className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+            >
+              {CAPTION_POSITIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label htmlFor="captionTextColor" className="block text-sm text-gray-400 mb-1">Text colour</label>
+              <input
+                type="color"
+                id="captionTextColor"
+                value={captions.textColor}
+                onChange={(e) => update({ textColor: e.target.value })}
+                className="w-full h-9 bg-gray-800 border border-gray-700 rounded-md"
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="captionHighlightColor" className="block text-sm text-gray-400 mb-1">Highlight colour</label>
+              <input
+                type="color"
+                id="captionHighlightColor"
+                value={captions.highlightColor}
+                onChange={(e) => update({ highlightColor: e.target.value })}
+                className="w-full h-9 bg-gray-800 border border-gray-700 rounded-md"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="captionFontSize" className="block text-sm text-gray-400 mb-1">
+              Font size: {captions.fontSize}px
+            </label>
+            <input
+              type="range"
+              id="captionFontSize"
+              min="24"
+              max="160"
+              step="2"
+              value={captions.fontSize}
+              onChange={(e) => update({ fontSize: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="captionMaxWords" className="block text-sm text-gray-400 mb-1">
+              Max words per line: {captions.maxWordsPerLine}
+            </label>
+            <input
+              type="range"
+              id="captionMaxWords"
+              min="1"
+              max="10"
+              step="1"
+              value={captions.maxWordsPerLine}
+              onChange={(e) => update({ maxWordsPerLine: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaptionOptions;
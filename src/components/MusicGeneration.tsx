@@ -1,9 +1,13 @@
 import React, { useState, useRef, useEffect } from "react";
 import toast from "react-hot-toast";
+import { MusicMixSettings } from "../lib/video/musicMix";
+import MusicMixOptions from "./MusicMixOptions";
 
 interface MusicGenerationProps {
   script: string;
   audioBase64?: string; // Add voiceover audio to props
+  musicMix: MusicMixSettings;
+  onMusicMixChange: (musicMix: MusicMixSettings) => void;
   onMusicGenerated: (musicData: { musicUrl: string; musicPrompt: string }) => void;
   onBack: () => void;
 }
@@ -17,6 +21,8 @@ const toastOptions = {
 const MusicGeneration: React.FC<MusicGenerationProps> = ({
   script,
   audioBase64,
+  musicMix,
+  onMusicMixChange,
   onMusicGenerated,
   onBack,
 }) => {
@@ -403,6 +409,8 @@ const MusicGeneration: React.FC<MusicGenerationProps> = ({
         </div>
       )}
 
+      <MusicMixOptions mix={musicMix} onChange={onMusicMixChange} />
+
       {error && (
         <div className="text-center text-red-500 p-3 bg-red-900/20 border border-red-900 rounded-lg">
           <p className="font-medium">Error:</p>
@@ -0,0 +1,154 @@
+import React from "react";
+import { MusicMixSettings, MAX_MUSIC_FADE } from "../lib/video/musicMix";
+
+interface MusicMixOptionsProps {
+  mix: MusicMixSettings;
+  onChange: (mix: MusicMixSettings) => void;
+}
+
+const MusicMixOptions: React.FC<MusicMixOptionsProps> = ({ mix, onChange }) => {
+  const update = (changes: Partial<MusicMixSettings>) => onChange({ ...mix, ...changes });
+
+  return (
+    <div className="space-y-4 p-4 bg-gray-800/50 rounded-lg border border-gray-700">
+      <div className="flex justify-between items-center">
+        <h3 className="font-medium text-white">Music Mix</h3>
+        <label className="inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            className="sr-only peer"
+            checked={mix.ducking}
+            onChange={() => update({ ducking: !mix.ducking })}
+          />
+          <div className="relative w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          <span className="ml-3 text-sm font-medium text-gray-300">Duck under narration</span>
+        </label>
+      </div>
+
+      <div>
+        <label htmlFor="musicBedLevel" className="block text-sm text-gray-400 mb-1">
+          Music bed level: {Math.round(mix.bedLevel * 100)}%
+        </label>
+        <input
+          type="range"
+          id="musicBedLevel"
+          min="0"
+          max="1"
+          step="0.05"
+          value={mix.bedLevel}
+          onChange={(e) => update({ bedLevel: Number(e.target.value) })}
+          className="w-full"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          {mix.ducking
+            ? "Level of the music between sentences, it drops automatically while the voiceover speaks"
+            : "Level of the music throughout the video"}
+        </p>
+      </div>
+
+      {mix.ducking && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="duckingThreshold" className="block text-sm text-gray-400 mb-1">
+              Threshold: {mix.threshold} dB
+            </label>
+            <input
+              type="range"
+              id="duckingThreshold"
+              min="-60"
+              max="0"
+              step="1"
+              value={mix.threshold}
+              onChange={(e) => update({ threshold: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="duckingRatio" className="block text-sm text-gray-400 mb-1">
+              Ratio: {mix.ratio}:1
+            </label>
+            <input
+              type="range"
+              id="duckingRatio"
+              min="1"
+              max="20"
+              step="1"
+              value={mix.ratio}
+              onChange={(e) => update({ ratio: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="duckingAttack" className="block text-sm text-gray-400 mb-1">
+              Attack: {mix.attack} ms
+            </label>
+            <input
+              type="range"
+              id="duckingAttack"
+              min="5"
+              max="500"
+              step="5"
+              value={mix.attack}
+              onChange={(e) => update({ attack: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="duckingRelease" className="block text-sm text-gray-400 mb-1">
+              Release: {mix.release} ms
+            </label>
+            <input
+              type="range"
+              id="duckingRelease"
+              min="50"
+              max="3000"
+              step="50"
+              value={mix.release}
+              onChange={(e) => update({ release: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="musicFadeIn" className="block text-sm text-gray-400 mb-1">
+            Fade in: {mix.fadeIn > 0 ? `${mix.fadeIn} seconds` : "off"}
+          </label>
+          <input
+            type="range"
+            id="musicFadeIn"
+            min="0"
+            max={MAX_MUSIC_FADE}
+            step="0.5"
+            value={mix.fadeIn}
+            onChange={(e) => update({ fadeIn: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="musicFadeOut" className="block text-sm text-gray-400 mb-1">
+            Fade out: {mix.fadeOut > 0 ? `${mix.fadeOut} seconds` : "off"}
+          </label>
+          <input
+            type="range"
+            id="musicFadeOut"
+            min="0"
+            max={MAX_MUSIC_FADE}
+            step="0.5"
+            value={mix.fadeOut}
+            onChange={(e) => update({ fadeOut: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MusicMixOptions;
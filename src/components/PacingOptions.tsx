@@ -0,0 +1,141 @@
+import React from "react";
+import {
+  DEFAULT_PACING,
+  MAX_KEEP_SILENCE,
+  MAX_PARAGRAPH_PAUSE,
+  MAX_TEMPO,
+  MIN_TEMPO,
+  PacingSettings,
+} from "../lib/voiceover/pacing";
+
+interface PacingOptionsProps {
+  settings: PacingSettings;
+  onChange: (settings: PacingSettings) => void;
+  applied: boolean; // Whether the voiceover is paced with these settings
+  busy: boolean;
+  onApply: () => void;
+  onRemove?: () => void; // Go back to the unpaced track, when it is paced
+}
+
+const PacingOptions: React.FC<PacingOptionsProps> = ({ settings, onChange, applied, busy, onApply, onRemove }) => {
+  const update = (changes: Partial<PacingSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="space-y-4 p-4 bg-gray-900 rounded-lg border border-gray-700">
+      <div className="flex justify-between items-center">
+        <h3 className="font-medium text-white">Pacing</h3>
+        <label className="inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            className="sr-only peer"
+            checked={settings.trimSilence}
+            onChange={() => update({ trimSilence: !settings.trimSilence })}
+          />
+          <div className="relative w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          <span className="ml-3 text-sm font-medium text-gray-300">Trim silence</span>
+        </label>
+      </div>
+
+      {settings.trimSilence && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="pacingThreshold" className="block text-sm text-gray-400 mb-1">
+              Silence threshold: {settings.threshold} dB
+            </label>
+            <input
+              type="range"
+              id="pacingThreshold"
+              min="-80"
+              max="-20"
+              step="1"
+              value={settings.threshold}
+              onChange={(e) => update({ threshold: Number(e.target.value) })}
+              className="w-full"
+            />
+            <p className="text-xs text-gray-500 mt-1">Raise it if breaths or room noise are left at the edges</p>
+          </div>
+          <div>
+            <label htmlFor="pacingKeepSilence" className="block text-sm text-gray-400 mb-1">
+              Silence kept at the edges: {settings.keepSilence.toFixed(2)}s
+            </label>
+            <input
+              type="range"
+              id="pacingKeepSilence"
+              min="0"
+              max={MAX_KEEP_SILENCE}
+              step="0.01"
+              value={settings.keepSilence}
+              onChange={(e) => update({ keepSilence: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="pacingPause" className="block text-sm text-gray-400 mb-1">
+            Pause between paragraphs: {settings.paragraphPause.toFixed(2)}s
+          </label>
+          <input
+            type="range"
+            id="pacingPause"
+            min="0"
+            max={MAX_PARAGRAPH_PAUSE}
+            step="0.05"
+            value={settings.paragraphPause}
+            onChange={(e) => update({ paragraphPause: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label htmlFor="pacingTempo" className="block text-sm text-gray-400 mb-1">
+            Tempo: {settings.tempo.toFixed(2)}x
+          </label>
+          <input
+            type="range"
+            id="pacingTempo"
+            min={MIN_TEMPO}
+            max={MAX_TEMPO}
+            step="0.05"
+            value={settings.tempo}
+            onChange={(e) => update({ tempo: Number(e.target.value) })}
+            className="w-full"
+          />
+          <p className="text-xs text-gray-500 mt-1">Speeds the track up or down without changing the pitch</p>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={busy || applied}
+          className="flex-1 py-2 px-4 bg-indigo-700 text-white text-sm font-medium rounded-lg hover:bg-indigo-600 transition-colors disabled:opacity-50"
+        >
+          {busy ? "Pacing..." : applied ? "Pacing applied" : "Apply Pacing"}
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_PACING)}
+          disabled={busy}
+          className="py-2 px-4 bg-gray-700 text-gray-300 text-sm rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+        >
+          Defaults
+        </button>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            disabled={busy}
+            className="py-2 px-4 bg-gray-700 text-gray-300 text-sm rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PacingOptions;
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from "react";
+import toast from "react-hot-toast";
+import { PronunciationEntry } from "../lib/voiceover/pronunciation";
+
+const EMPTY_ENTRY: PronunciationEntry = { term: "", alias: "", matchCase: false };
+
+interface PronunciationDictionaryProps {
+  userId: string; // Whose lexicon is edited
+}
+
+// Editor for the user's pronunciation lexicon, saved as a whole
+const PronunciationDictionary: React.FC<PronunciationDictionaryProps> = ({ userId }) => {
+  const [entries, setEntries] = useState<PronunciationEntry[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/pronunciations?${new URLSearchParams({ userId })}`)
+      .then((response) => response.json())
+      .then((data) => setEntries(data.entries || []))
+      .catch((error) => console.error("Error loading pronunciations:", error));
+  }, [userId]);
+
+  const updateEntry = (index: number, changes: Partial<PronunciationEntry>) => {
+    setEntries(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+    setDirty(true);
+  };
+
+  const removeEntry = (index: number) => {
+    setEntries(entries.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const addEntry = () => {
+    setEntries([...entries, EMPTY_ENTRY]);
+    setExpanded(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/pronunciations", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ userId, entries }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save pronunciations");
+      }
+
+      setEntries(data.entries);
+      setDirty(false);
+      toast.success("Pronunciations saved, regenerate the voiceover to hear them");
+    } catch (err: any) {
+      console.error("Error saving pronunciations:", err);
+      toast.error(err.message || "Failed to save pronunciations");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-3">
+      <div className="flex justify-between items-center">
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="font-medium text-white"
+        >
+          Pronunciations {entries.length > 0 && <span className="text-sm text-gray-400">({entries.length})</span>}
+        </button>
+        <button
+          type="button"
+          onClick={addEntry}
+          className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors"
+        >
+          Add term
+        </button>
+      </div>
+
+      {expanded && (
+        <>
+          <p className="text-xs text-gray-500">
+            Terms are read as their respelling, e.g. &quot;SQL&quot; as &quot;sequel&quot;. Captions keep the script&apos;s spelling.
+          </p>
+
+          {entries.map((entry, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={entry.term}
+                onChange={(e) => updateEntry(index, { term: e.target.value })}
+                placeholder="Term"
+                className="flex-1 min-w-[8rem] p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+              />
+              <input
+                type="text"
+                value={entry.alias}
+                onChange={(e) => updateEntry(index, { alias: e.target.value })}
+                placeholder="Say it as"
+                className="flex-1 min-w-[8rem] p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+              />
+              <label className="flex items-center gap-1 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={entry.matchCase}
+                  onChange={(e) => updateEntry(index, { matchCase: e.target.checked })}
+                />
+                Match case
+              </label>
+              <button
+                type="button"
+                onClick={() => removeEntry(index)}
+                className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-red-600 transition-colors"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+
+          {(dirty || entries.length > 0) && (
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving || !dirty}
+                className="text-sm py-1 px-3 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save pronunciations"}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PronunciationDictionary;
@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from "react";
+import toast from "react-hot-toast";
+import { WordTiming } from "../lib/voiceover/alignment";
+import { PublishKit, VideoTimeline, formatPublishKitText } from "../lib/video/publishKit";
+
+interface PublishKitGenerationProps {
+  videoId: string;
+  script: string;
+  alignment?: WordTiming[];
+  timeline: VideoTimeline;
+  onBack: () => void;
+  onReset: () => void;
+}
+
+const PublishKitGeneration: React.FC<PublishKitGenerationProps> = ({
+  videoId,
+  script,
+  alignment,
+  timeline,
+  onBack,
+  onReset,
+}) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [publishKit, setPublishKit] = useState<PublishKit | null>(null);
+  const [jsonUrl, setJsonUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    generatePublishKit();
+  }, []);
+
+  const generatePublishKit = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/openrouter/generate-publish-kit", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          videoId,
+          script,
+          alignment,
+          timeline,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate publish kit");
+      }
+
+      setPublishKit(data.publishKit);
+      setJsonUrl(data.jsonUrl);
+    } catch (err) {
+      console.error("Error generating publish kit:", err);
+      setError((err as Error).message);
+      toast.error("Failed to generate publish kit");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${label} copied to clipboard!`);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+      toast.error("Failed to copy to clipboard");
+    }
+  };
+
+  const handleDownloadText = () => {
+    if (!publishKit) return;
+
+    const url = URL.createObjectURL(new Blob([formatPublishKitText(publishKit)], { type: "text/plain" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `ai-generated-video-${videoId}-publish-kit.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast.success("Download started!");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-white">Publish Kit</h2>
+        <p className="text-gray-400 mt-2">
+          Titles, a description with chapters, hashtags and tags for uploading your video to YouTube.
+        </p>
+      </div>
+
+      {loading && (
+        <div className="flex flex-col items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-600 border-t-blue-500"></div>
+          <p className="text-gray-400 mt-4">Writing your publish kit...</p>
+        </div>
+      )}
+
+      {error && !loading && (
+        <div className="bg-red-900/20 border border-red-800 rounded-lg p-4 text-center space-y-3">
+          <p className="text-red-200 text-sm">{error}</p>
+          <button
+            onClick={generatePublishKit}
+            className="py-2 px-4 bg-red-700 text-white text-sm font-medium rounded-md hover:bg-red-600 transition-colors"
+          >
+            Try Again
+          </button>
+        </div>
+      )}
+
+      {publishKit && !loading && (
+        <div className="space-y-4">
+          <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-2">
+            <h3 className="font-medium text-white">Title Options</h3>
+            {publishKit.titles.map((title, i) => (
+              <div key={i} className="flex justify-between items-center gap-2 text-sm text-gray-300">
+                <span>{title}</span>
+                <button
+                  onClick={() => handleCopy(title, "Title")}
+                  className="shrink-0 text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors"
+                >
+                  Copy
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="font-medium text-white">Description</h3>
+              <button
+                onClick={() => handleCopy(publishKit.description, "Description")}
+                className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors"
+              >
+                Copy
+              </button>
+            </div>
+            <pre className="whitespace-pre-wrap font-sans text-sm text-gray-300">{publishKit.description}</pre>
+            {publishKit.chapters.length === 0 && (
+              <p className="text-xs text-gray-500">
+                The video is too short for YouTube chapters, which need at least three of 10 seconds or more
+              </p>
+            )}
+          </div>
+
+          <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="font-medium text-white">Tags</h3>
+              <button
+                onClick={() => handleCopy(publishKit.tags.join(", "), "Tags")}
+                className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors"
+              >
+                Copy
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {publishKit.tags.map((tag) => (
+                <span key={tag} className="text-xs py-1 px-2 bg-gray-800 text-gray-300 rounded-full">{tag}</span>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <button
+              onClick={handleDownloadText}
+              className="py-2 px-4 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Download as Text
+            </button>
+            {jsonUrl && (
+              <a
+                href={jsonUrl}
+                download={`ai-generated-video-${videoId}-publish-kit.json`}
+                className="py-2 px-4 bg-gray-700 text-white font-medium rounded-lg hover:bg-gray-600 transition-colors text-center"
+              >
+                Download JSON
+              </a>
+            )}
+            <button
+              onClick={generatePublishKit}
+              className="py-2 px-4 bg-gray-700 text-white font-medium rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Regenerate
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between pt-4">
+        <button
+          onClick={onBack}
+          className="py-2 px-4 bg-gray-700 text-white font-medium rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          Back to Video
+        </button>
+        <button
+          onClick={onReset}
+          className="py-2 px-4 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-900 transition-colors"
+        >
+          Create Another Video
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PublishKitGeneration;
@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from "react";
 import toast from "react-hot-toast";
+import { ScriptMode } from "../lib/voiceover/dialogue";
+import { ScriptStyle } from "../lib/voiceover/scriptStyle";
 
 interface ScriptGenerationProps {
   videoIdea: string;
   videoDuration: number;
+  scriptMode: ScriptMode;
+  scriptStyle: ScriptStyle;
   onScriptGenerated: (scriptData: any) => void;
   onBack: () => void;
 }
@@ -11,6 +15,8 @@ interface ScriptGenerationProps {
 const ScriptGeneration: React.FC<ScriptGenerationProps> = ({
   videoIdea,
   videoDuration,
+  scriptMode,
+  scriptStyle,
   onScriptGenerated,
   onBack,
 }) => {
@@ -47,7 +53,9 @@ const ScriptGeneration: React.FC<ScriptGenerationProps> = ({
         },
         body: JSON.stringify({ 
           prompt: videoIdea,
-          duration: videoDuration 
+          duration: videoDuration,
+          mode: scriptMode,
+          style: scriptStyle,
         }),
       });
 
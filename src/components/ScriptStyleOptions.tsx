@@ -0,0 +1,140 @@
+import React from "react";
+import {
+  MAX_AUDIENCE_LENGTH,
+  MAX_CALL_TO_ACTION_LENGTH,
+  POINTS_OF_VIEW,
+  PointOfView,
+  READING_LEVELS,
+  ReadingLevel,
+  SCRIPT_STRUCTURES,
+  SCRIPT_TONES,
+  ScriptStructure,
+  ScriptStyle,
+  ScriptTone,
+} from "../lib/voiceover/scriptStyle";
+
+interface ScriptStyleOptionsProps {
+  style: ScriptStyle;
+  onChange: (style: ScriptStyle) => void;
+  showPointOfView?: boolean; // Narration only, a dialogue's characters speak for themselves
+}
+
+const ScriptStyleOptions: React.FC<ScriptStyleOptionsProps> = ({ style, onChange, showPointOfView = true }) => {
+  const update = (changes: Partial<ScriptStyle>) => onChange({ ...style, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <span className="block text-sm font-medium text-gray-400 mb-2">
+          Tone
+        </span>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {(Object.keys(SCRIPT_TONES) as ScriptTone[]).map((tone) => (
+            <button
+              key={tone}
+              type="button"
+              onClick={() => update({ tone })}
+              className={`p-3 rounded-lg border text-left transition-colors ${
+                style.tone === tone
+                  ? "bg-blue-600/20 border-blue-500 text-white"
+                  : "bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-800"
+              }`}
+            >
+              <span className="block text-sm font-medium">{SCRIPT_TONES[tone].label}</span>
+              <span className="block text-xs text-gray-500 mt-1">{SCRIPT_TONES[tone].description}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="scriptAudience" className="block text-sm font-medium text-gray-400 mb-2">
+            Target Audience
+          </label>
+          <input
+            type="text"
+            id="scriptAudience"
+            value={style.audience}
+            maxLength={MAX_AUDIENCE_LENGTH}
+            onChange={(e) => update({ audience: e.target.value })}
+            placeholder="e.g. Small business owners new to marketing"
+            className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white"
+          />
+        </div>
+        <div>
+          <label htmlFor="scriptReadingLevel" className="block text-sm font-medium text-gray-400 mb-2">
+            Reading Level
+          </label>
+          <select
+            id="scriptReadingLevel"
+            value={style.readingLevel}
+            onChange={(e) => update({ readingLevel: e.target.value as ReadingLevel })}
+            className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white"
+          >
+            {(Object.keys(READING_LEVELS) as ReadingLevel[]).map((level) => (
+              <option key={level} value={level}>{READING_LEVELS[level].label} - {READING_LEVELS[level].description}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className={`grid grid-cols-1 ${showPointOfView ? "md:grid-cols-2" : ""} gap-4`}>
+        <div>
+          <label htmlFor="scriptStructure" className="block text-sm font-medium text-gray-400 mb-2">
+            Structure
+          </label>
+          <select
+            id="scriptStructure"
+            value={style.structure}
+            onChange={(e) => update({ structure: e.target.value as ScriptStructure })}
+            className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white"
+          >
+            {(Object.keys(SCRIPT_STRUCTURES) as ScriptStructure[]).map((structure) => (
+              <option key={structure} value={structure}>
+                {SCRIPT_STRUCTURES[structure].label} - {SCRIPT_STRUCTURES[structure].description}
+              </option>
+            ))}
+          </select>
+        </div>
+        {showPointOfView && (
+          <div>
+            <label htmlFor="scriptPointOfView" className="block text-sm font-medium text-gray-400 mb-2">
+              Point of View
+            </label>
+            <select
+              id="scriptPointOfView"
+              value={style.pointOfView}
+              onChange={(e) => update({ pointOfView: e.target.value as PointOfView })}
+              className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white"
+            >
+              {(Object.keys(POINTS_OF_VIEW) as PointOfView[]).map((pointOfView) => (
+                <option key={pointOfView} value={pointOfView}>
+                  {POINTS_OF_VIEW[pointOfView].label} - {POINTS_OF_VIEW[pointOfView].description}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="scriptCallToAction" className="block text-sm font-medium text-gray-400 mb-2">
+          Call to Action <span className="text-gray-500 font-normal">(optional)</span>
+        </label>
+        <input
+          type="text"
+          id="scriptCallToAction"
+          value={style.callToAction}
+          maxLength={MAX_CALL_TO_ACTION_LENGTH}
+          onChange={(e) => update({ callToAction: e.target.value })}
+          placeholder="e.g. Download the free checklist linked in the description"
+          className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white"
+        />
+        <p className="mt-2 text-sm text-gray-500">How the script closes, leave it empty for no call to action</p>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptStyleOptions;
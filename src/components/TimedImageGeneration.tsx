@@ -1,5 +1,9 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import toast from "react-hot-toast";
+import { DEFAULT_MOTION, MOTION_OPTIONS, MotionDescriptor, MotionPreset } from "../lib/video/motion";
+import { AspectRatio, ASPECT_RATIOS } from "../lib/video/aspectRatio";
+import { WordTiming } from "../lib/voiceover/alignment";
+import { Scene, SegmentationMode, buildSentenceScenes } from "../lib/voiceover/scenes";
 
 // Toast manager to prevent multiple toasts
 const toastIds = {
@@ -28,13 +32,17 @@ const showToast = (message: string, type: 'success' | 'error' | 'loading') => {
 interface TimedImageGenerationProps {
   script: string;
   audioBase64: string;
-  onImagesGenerated: (images: { timestamp: number; imageBase64: string }[]) => void;
+  alignment?: WordTiming[];
+  aspectRatio: AspectRatio;
+  onImagesGenerated: (images: { timestamp: number; imageBase64: string; motion?: MotionDescriptor }[]) => void;
   onBack: () => void;
 }
 
 const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
   script,
   audioBase64,
+  alignment,
+  aspectRatio,
   onImagesGenerated,
   onBack,
 }) => {
@@ -42,10 +50,15 @@ const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
   const [analyzing, setAnalyzing] = useState(true);
   const [audioDuration, setAudioDuration] = useState<number | null>(null);
   const [imagePrompts, setImagePrompts] = useState<{ timestamp: number; prompt: string }[]>([]);
-  const [generatedImages, setGeneratedImages] = useState<{ timestamp: number; imageBase64: string }[]>([]);
+  const [generatedImages, setGeneratedImages] = useState<{ timestamp: number; imageBase64: string; motion: MotionDescriptor }[]>([]);
   const [currentPromptIndex, setCurrentPromptIndex] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [interval, setInterval] = useState(4); // Default interval in seconds
+  const [segmentationMode, setSegmentationMode] = useState<SegmentationMode>(alignment?.length ? "sentence" : "interval");
+  const [minSceneDuration, setMinSceneDuration] = useState(3);
+  const [maxSceneDuration, setMaxSceneDuration] = useState(8);
+  const [sceneAlignment, setSceneAlignment] = useState<WordTiming[] | null>(alignment?.length ? alignment : null);
+  const promptRequestRef = useRef(0); // Only the latest prompt request's reply is used
 
   // Calculate how many images will be generated
   const totalImages = imagePrompts.length;
@@ -58,12 +71,13 @@ const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
     }
   }, [audioBase64]);
 
-  // Generate prompts when audio duration is known
+  // Generate prompts once the audio duration is known, later changes to the interval or
+  // scene settings are applied from the generate button
   useEffect(() => {
     if (audioDuration !== null) {
       generateTimedPrompts();
     }
-  }, [audioDuration, interval]);
+  }, [audioDuration]);
 
   // Generate images when prompts are ready
   useEffect(() => {
@@ -99,15 +113,47 @@ const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
     }
   };
 
+  // Word timings to cut scenes on: the voiceover's alignment, or a forced-alignment pass over the audio
+  const getSceneAlignment = async (): Promise<WordTiming[]> => {
+    if (sceneAlignment) return sceneAlignment;
+
+    const response = await fetch("/api/deepgram/align", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        script,
+        audioBase64,
+        audioDuration,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to align the script to the voiceover");
+    }
+
+    const data = await response.json();
+    setSceneAlignment(data.alignment);
+    return data.alignment;
+  };
+
   const generateTimedPrompts = async () => {
     if (!audioDuration) return;
-    
+
+    const request = ++promptRequestRef.current;
     setLoading(true);
     setError(null);
     
     const loadingToastId = showToast("Generating image prompts...", 'loading');
 
     try {
+      let scenes: Scene[] | undefined;
+      if (segmentationMode === "sentence") {
+        scenes = buildSentenceScenes(script, await getSceneAlignment(), audioDuration, minSceneDuration, maxSceneDuration);
+      }
+
       const response = await fetch("/api/openrouter/generate-timed-image-prompts", {
         method: "POST",
         headers: {
@@ -117,6 +163,9 @@ const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
           script,
           audioDuration,
           interval,
+          aspectRatio,
+          alignment,
+          scenes,
         }),
       });
 
@@ -126,6 +175,7 @@ const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
       }
 
       const data = await response.json();
+      if (request !== promptRequestRef.current) return;
       
       if (!data.imagePrompts || !Array.isArray(data.imagePrompts) || data.imagePrompts.length === 0) {
         throw new Error("No image prompts generated");
@@ -136,6 +186,7 @@ const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
       toast.dismiss(loadingToastId);
       showToast("Image prompts generated successfully", 'success');
     } catch (err) {
+      if (request !== promptRequestRef.current) return;
       console.error("Error generating prompts:", err);
       setError((err as Error).message);
       setLoading(false);
@@ -182,6 +233,7 @@ const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
             },
             body: JSON.stringify({
               prompts: [currentPrompt],
+              aspectRatio,
             }),
           });
 
@@ -206,6 +258,7 @@ const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
             ...data.results.map((result: any) => ({
               timestamp: result.timestamp,
               imageBase64: result.imageBase64,
+              motion: DEFAULT_MOTION,
             }))
           ]);
           
@@ -257,6 +310,22 @@ const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
     }
   };
 
+  const handleSceneDurationChange = (bound: "min" | "max", value: number) => {
+    if (bound === "min") {
+      setMinSceneDuration(value);
+      setMaxSceneDuration(prev => Math.max(prev, value + 1));
+    } else {
+      setMaxSceneDuration(value);
+      setMinSceneDuration(prev => Math.min(prev, value - 1));
+    }
+  };
+
+  const handleMotionChange = (index: number, preset: MotionPreset) => {
+    setGeneratedImages(prev => prev.map((image, i) =>
+      i === index ? { ...image, motion: { ...image.motion, preset } } : image
+    ));
+  };
+
   const handleRegeneratePrompts = () => {
     setImagePrompts([]);
     setGeneratedImages([]);
@@ -338,27 +407,87 @@ const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
         </p>
       </div>
 
-      {/* Interval selector */}
+      {/* Segmentation selector */}
       {imagePrompts.length === 0 && (
         <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
-          <div className="flex flex-col space-y-2">
-            <label htmlFor="interval" className="text-white">
-              Image interval: {interval} seconds
-            </label>
-            <input
-              type="range"
-              id="interval"
-              min="3"
-              max="10"
-              step="0.5"
-              value={interval}
-              onChange={handleIntervalChange}
-              className="w-full"
-            />
-            <p className="text-sm text-gray-400">
-              This will generate approximately {audioDuration ? Math.ceil(audioDuration / interval) : "..."} images for your {audioDuration ? Math.round(audioDuration) : "..."} second voiceover.
-            </p>
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            <button
+              type="button"
+              onClick={() => setSegmentationMode("sentence")}
+              className={`py-2 px-3 rounded-lg border text-sm transition-colors ${
+                segmentationMode === "sentence"
+                  ? "bg-blue-600 border-blue-500 text-white"
+                  : "bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              Sentence-aligned
+            </button>
+            <button
+              type="button"
+              onClick={() => setSegmentationMode("interval")}
+              className={`py-2 px-3 rounded-lg border text-sm transition-colors ${
+                segmentationMode === "interval"
+                  ? "bg-blue-600 border-blue-500 text-white"
+                  : "bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              Fixed interval
+            </button>
           </div>
+
+          {segmentationMode === "interval" ? (
+            <div className="flex flex-col space-y-2">
+              <label htmlFor="interval" className="text-white">
+                Image interval: {interval} seconds
+              </label>
+              <input
+                type="range"
+                id="interval"
+                min="3"
+                max="10"
+                step="0.5"
+                value={interval}
+                onChange={handleIntervalChange}
+                className="w-full"
+              />
+              <p className="text-sm text-gray-400">
+                This will generate approximately {audioDuration ? Math.ceil(audioDuration / interval) : "..."} images for your {audioDuration ? Math.round(audioDuration) : "..."} second voiceover.
+              </p>
+            </div>
+          ) : (
+            <div className="flex flex-col space-y-2">
+              <label htmlFor="minSceneDuration" className="text-white">
+                Shortest scene: {minSceneDuration} seconds
+              </label>
+              <input
+                type="range"
+                id="minSceneDuration"
+                min="2"
+                max="9"
+                step="0.5"
+                value={minSceneDuration}
+                onChange={(e) => handleSceneDurationChange("min", parseFloat(e.target.value))}
+                className="w-full"
+              />
+              <label htmlFor="maxSceneDuration" className="text-white">
+                Longest scene: {maxSceneDuration} seconds
+              </label>
+              <input
+                type="range"
+                id="maxSceneDuration"
+                min="3"
+                max="15"
+                step="0.5"
+                value={maxSceneDuration}
+                onChange={(e) => handleSceneDurationChange("max", parseFloat(e.target.value))}
+                className="w-full"
+              />
+              <p className="text-sm text-gray-400">
+                Images change between sentences, grouping them into scenes of {minSceneDuration}-{maxSceneDuration} seconds and starting a new scene at paragraph breaks.
+                {!sceneAlignment && " The voiceover will be transcribed to find where each sentence is spoken."}
+              </p>
+            </div>
+          )}
           <div className="mt-4">
             <button
               onClick={generateTimedPrompts}
@@ -436,16 +565,33 @@ const TimedImageGeneration: React.FC<TimedImageGenerationProps> = ({
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {generatedImages.map((image, index) => (
               <div key={index} className="space-y-2">
-                <div className="aspect-video bg-gray-800 rounded-lg overflow-hidden border border-gray-700">
+                <div
+                  className="bg-gray-800 rounded-lg overflow-hidden border border-gray-700"
+                  style={{ aspectRatio: `${ASPECT_RATIOS[aspectRatio].width} / ${ASPECT_RATIOS[aspectRatio].height}` }}
+                >
                   <img
                     src={image.imageBase64}
                     alt={`Generated image at ${formatTimestamp(image.timestamp)}`}
                     className="w-full h-full object-cover"
                   />
                 </div>
-                <p className="text-sm text-gray-400 text-center">
-                  Timestamp: {formatTimestamp(image.timestamp)}
-                </p>
+                <div className="flex justify-between items-center">
+                  <p className="text-sm text-gray-400">
+                    Timestamp: {formatTimestamp(image.timestamp)}
+                  </p>
+                  <select
+                    value={image.motion.preset}
+                    onChange={(e) => handleMotionChange(index, e.target.value as MotionPreset)}
+                    className="text-sm p-1 bg-gray-800 border border-gray-700 rounded text-gray-300"
+                    aria-label="Image motion"
+                  >
+                    {MOTION_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
             ))}
           </div>
@@ -0,0 +1,147 @@
+import React from "react";
+import {
+  TitleCardSettings,
+  MIN_TITLE_CARD_DURATION,
+  MAX_TITLE_CARD_DURATION,
+} from "../lib/video/titleCards";
+
+interface TitleCardOptionsProps {
+  id: string; // Prefix for the input IDs, there's one of these per card
+  title: string;
+  card: TitleCardSettings;
+  textPlaceholder: string;
+  subtitlePlaceholder: string;
+  onChange: (card: TitleCardSettings) => void;
+}
+
+const TitleCardOptions: React.FC<TitleCardOptionsProps> = ({
+  id,
+  title,
+  card,
+  textPlaceholder,
+  subtitlePlaceholder,
+  onChange,
+}) => {
+  const update = (changes: Partial<TitleCardSettings>) => onChange({ ...card, ...changes });
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onloadend = () => update({ backgroundImage: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-medium text-white">{title}</h3>
+        <label className="inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            className="sr-only peer"
+            checked={card.enabled}
+            onChange={() => update({ enabled: !card.enabled })}
+          />
+          <div className="relative w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          <span className="ml-3 text-sm font-medium text-gray-300">Add card</span>
+        </label>
+      </div>
+
+      {card.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor={`${id}Text`} className="block text-sm text-gray-400 mb-1">Title</label>
+            <input
+              type="text"
+              id={`${id}Text`}
+              value={card.text}
+              placeholder={textPlaceholder}
+              onChange={(e) => update({ text: e.target.value })}
+              className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor={`${id}Subtitle`} className="block text-sm text-gray-400 mb-1">Subtitle</label>
+            <input
+              type="text"
+              id={`${id}Subtitle`}
+              value={card.subtitle}
+              placeholder={subtitlePlaceholder}
+              onChange={(e) => update({ subtitle: e.target.value })}
+              className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+            />
+          </div>
+
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label htmlFor={`${id}BackgroundColor`} className="block text-sm text-gray-400 mb-1">Background</label>
+              <input
+                type="color"
+                id={`${id}BackgroundColor`}
+                value={card.backgroundColor}
+                onChange={(e) => update({ backgroundColor: e.target.value })}
+                className="w-full h-9 bg-gray-800 border border-gray-700 rounded-md"
+                disabled={!!card.backgroundImage}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor={`${id}TextColor`} className="block text-sm text-gray-400 mb-1">Text colour</label>
+              <input
+                type="color"
+                id={`${id}TextColor`}
+                value={card.textColor}
+                onChange={(e) => update({ textColor: e.target.value })}
+                className="w-full h-9 bg-gray-800 border border-gray-700 rounded-md"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor={`${id}BackgroundImage`} className="block text-sm text-gray-400 mb-1">Background image (optional)</label>
+            {card.backgroundImage ? (
+              <div className="flex items-center gap-2">
+                <img src={card.backgroundImage} alt={`${title} background`} className="h-9 w-16 object-cover rounded" />
+                <button
+                  type="button"
+                  onClick={() => update({ backgroundImage: null })}
+                  className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors"
+                >
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <input
+                type="file"
+                id={`${id}BackgroundImage`}
+                accept="image/*"
+                onChange={handleImageChange}
+                className="w-full text-sm text-gray-400"
+              />
+            )}
+          </div>
+
+          <div>
+            <label htmlFor={`${id}Duration`} className="block text-sm text-gray-400 mb-1">
+              Duration: {card.duration} seconds
+            </label>
+            <input
+              type="range"
+              id={`${id}Duration`}
+              min={MIN_TITLE_CARD_DURATION}
+              max={MAX_TITLE_CARD_DURATION}
+              step="0.5"
+              value={card.duration}
+              onChange={(e) => update({ duration: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TitleCardOptions;
@@ -1,11 +1,44 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import toast from "react-hot-toast";
+import {
+  TransitionSettings,
+  TRANSITION_OPTIONS,
+  MIN_TRANSITION_DURATION,
+  MAX_TRANSITION_DURATION,
+} from "../lib/video/transitions";
+import { MotionDescriptor } from "../lib/video/motion";
+import { AspectRatio } from "../lib/video/aspectRatio";
+import { CaptionSettings } from "../lib/video/captions";
+import { MusicMixSettings } from "../lib/video/musicMix";
+import { LoudnessTarget, LOUDNESS_TARGETS } from "../lib/video/loudness";
+import { TitleCardSettings } from "../lib/video/titleCards";
+import { WordTiming } from "../lib/voiceover/alignment";
+import type { RenderJob, RenderProgress } from "../lib/video/renderJobs";
+import CaptionOptions from "./CaptionOptions";
+import TitleCardOptions from "./TitleCardOptions";
+import BrandKitOptions from "./BrandKitOptions";
 
 interface VideoGenerationProps {
   images: string[];
   audioBase64: string;
-  timedImages?: { timestamp: number; imageBase64: string }[];
+  script: string;
+  alignment?: WordTiming[];
+  timedImages?: { timestamp: number; imageBase64: string; motion?: MotionDescriptor }[];
+  aspectRatio: AspectRatio;
   backgroundMusic?: string;
+  musicMix?: MusicMixSettings;
+  loudnessTarget: LoudnessTarget;
+  onLoudnessTargetChange: (target: LoudnessTarget) => void;
+  transition: TransitionSettings;
+  onTransitionChange: (transition: TransitionSettings) => void;
+  captions: CaptionSettings;
+  onCaptionsChange: (captions: CaptionSettings) => void;
+  intro: TitleCardSettings;
+  onIntroChange: (intro: TitleCardSettings) => void;
+  outro: TitleCardSettings;
+  onOutroChange: (outro: TitleCardSettings) => void;
+  brandKitId: string | null;
+  onBrandKitChange: (brandKitId: string | null) => void;
   onVideoGenerated: (videoData: any) => void;
   onBack: () => void;
 }
@@ -13,34 +46,64 @@ interface VideoGenerationProps {
 const VideoGeneration: React.FC<VideoGenerationProps> = ({
   images,
   audioBase64,
+  script,
+  alignment,
   timedImages,
+  aspectRatio,
   backgroundMusic,
+  musicMix,
+  loudnessTarget,
+  onLoudnessTargetChange,
+  transition,
+  onTransitionChange,
+  captions,
+  onCaptionsChange,
+  intro,
+  onIntroChange,
+  outro,
+  onOutroChange,
+  brandKitId,
+  onBrandKitChange,
   onVideoGenerated,
   onBack,
 }) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState(0);
-  
-  // Start generating the video as soon as the component mounts
+  const [progress, setProgress] = useState<RenderProgress | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const eventsRef = useRef<EventSource | null>(null);
+
+  // Stop listening to the render job when leaving this step
   useEffect(() => {
-    generateVideo();
+    return () => eventsRef.current?.close();
   }, []);
 
+  const handleJobUpdate = (job: RenderJob) => {
+    setProgress(job.progress);
+
+    if (job.status === "completed") {
+      eventsRef.current?.close();
+      onVideoGenerated(job.result);
+    } else if (job.status === "failed") {
+      eventsRef.current?.close();
+      setError(job.error || "Failed to generate video");
+      toast.error("Failed to generate video. Please try again.");
+      setLoading(false);
+    } else if (job.status === "cancelled") {
+      eventsRef.current?.close();
+      toast.success("Video generation cancelled");
+      setLoading(false);
+      setCancelling(false);
+      setJobId(null);
+    }
+  };
+
   const generateVideo = async () => {
     setLoading(true);
     setError(null);
-    
-    // Simulate progress while the video is being generated
-    const progressInterval = setInterval(() => {
-      setProgress((prev) => {
-        if (prev >= 95) {
-          clearInterval(progressInterval);
-          return prev;
-        }
-        return prev + 5;
-      });
-    }, 1000);
+    setProgress(null);
+    setCancelling(false);
 
     try {
       const response = await fetch("/api/video/generate", {
@@ -53,27 +116,40 @@ const VideoGeneration: React.FC<VideoGenerationProps> = ({
           timedImages,
           audioBase64,
           backgroundMusic,
+          musicMix,
+          loudnessTarget,
           duration: 15, // Default duration in seconds
+          script,
+          alignment,
+          transition,
+          aspectRatio,
+          captions,
+          intro,
+          outro,
+          brandKitId,
         }),
       });
 
-      clearInterval(progressInterval);
-      setProgress(100);
-
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || "Failed to generate video");
       }
 
-      const videoData = await response.json();
-      
-      // Wait for progress animation to complete
-      setTimeout(() => {
-        onVideoGenerated(videoData);
-      }, 1000);
+      // The render runs in the background, follow its progress until it finishes
+      const { jobId } = await response.json();
+      setJobId(jobId);
+
+      const events = new EventSource(`/api/video/jobs/${jobId}/events`);
+      eventsRef.current = events;
+      events.onmessage = (event) => handleJobUpdate(JSON.parse(event.data));
+      events.onerror = () => {
+        if (events.readyState === EventSource.CLOSED) {
+          setError("Lost connection to the video render");
+          setLoading(false);
+        }
+      };
       
     } catch (err) {
-      clearInterval(progressInterval);
       console.error("Error generating video:", err);
       setError((err as Error).message);
       toast.error("Failed to generate video. Please try again.");
@@ -81,6 +157,31 @@ const VideoGeneration: React.FC<VideoGenerationProps> = ({
     }
   };
 
+  const handleCancel = async () => {
+    if (!jobId) return;
+
+    setCancelling(true);
+    try {
+      const response = await fetch(`/api/video/jobs/${jobId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to cancel video generation");
+      }
+    } catch (err) {
+      console.error("Error cancelling video generation:", err);
+      toast.error((err as Error).message);
+      setCancelling(false);
+    }
+  };
+
+  const formatSeconds = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
+    return `${minutes}:${remainingSeconds < 10 ? '0' : ''}${remainingSeconds}`;
+  };
+
+  const percent = progress?.percent ?? 0;
+
   const handleTryAgain = () => {
     generateVideo();
   };
@@ -104,12 +205,106 @@ const VideoGeneration: React.FC<VideoGenerationProps> = ({
         )}
       </div>
 
+      {!loading && !error && (
+        <div className="space-y-6">
+          <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-4">
+            <h3 className="font-medium text-white">Transitions</h3>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              {TRANSITION_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => onTransitionChange({ ...transition, type: option.value })}
+                  className={`px-3 py-2 rounded-md text-sm ${transition.type === option.value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {transition.type !== "none" && (
+              <div className="flex flex-col space-y-2">
+                <label htmlFor="transitionDuration" className="text-sm text-gray-300">
+                  Transition duration: {transition.duration} seconds
+                </label>
+                <input
+                  type="range"
+                  id="transitionDuration"
+                  min={MIN_TRANSITION_DURATION}
+                  max={MAX_TRANSITION_DURATION}
+                  step="0.25"
+                  value={transition.duration}
+                  onChange={(e) => onTransitionChange({ ...transition, duration: parseFloat(e.target.value) })}
+                  className="w-full"
+                />
+                <p className="text-xs text-gray-500">
+                  Each image still starts appearing exactly at its timestamp
+                </p>
+              </div>
+            )}
+          </div>
+
+          <CaptionOptions captions={captions} onChange={onCaptionsChange} />
+
+          <TitleCardOptions
+            id="intro"
+            title="Intro Card"
+            card={intro}
+            textPlaceholder="Video title"
+            subtitlePlaceholder="Channel or tagline"
+            onChange={onIntroChange}
+          />
+
+          <TitleCardOptions
+            id="outro"
+            title="Outro Card"
+            card={outro}
+            textPlaceholder="Subscribe for more"
+            subtitlePlaceholder="https://example.com"
+            onChange={onOutroChange}
+          />
+
+          <BrandKitOptions brandKitId={brandKitId} onChange={onBrandKitChange} />
+
+          <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-4">
+            <h3 className="font-medium text-white">Loudness</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {(Object.keys(LOUDNESS_TARGETS) as LoudnessTarget[]).map((target) => (
+                <button
+                  key={target}
+                  onClick={() => onLoudnessTargetChange(target)}
+                  className={`px-3 py-2 rounded-md text-sm ${loudnessTarget === target ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                >
+                  {LOUDNESS_TARGETS[target].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              The final mix is normalized to this integrated loudness with a true peak of at most {LOUDNESS_TARGETS[loudnessTarget].truePeak} dBTP
+            </p>
+          </div>
+
+          <div className="flex gap-4">
+            <button
+              onClick={onBack}
+              className="flex-1 py-2 px-4 bg-gray-700 text-white font-medium rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={generateVideo}
+              className="flex-1 py-2 px-4 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Create Video
+            </button>
+          </div>
+        </div>
+      )}
+
       {loading && (
         <div className="space-y-6">
           <div className="w-full bg-gray-700 rounded-full h-3">
             <div
               className="bg-blue-600 h-3 rounded-full transition-all duration-500"
-              style={{ width: `${progress}%` }}
+              style={{ width: `${percent}%` }}
             ></div>
           </div>
           
@@ -138,22 +333,25 @@ const VideoGeneration: React.FC<VideoGenerationProps> = ({
               
               <div className="text-center">
                 <p className="text-sm text-gray-400">
-                  {progress < 25 ? (
-                    "Setting up processing environment..."
-                  ) : progress < 50 ? (
-                    "Converting images to video frames..."
-                  ) : progress < 75 ? (
-                    backgroundMusic ? "Mixing audio tracks..." : "Adding audio track to video..."
-                  ) : (
-                    "Finalizing and optimizing video..."
-                  )}
+                  {progress ? `${progress.stage}...` : "Submitting render..."}
+                  {percent > 0 && ` ${Math.round(percent)}%`}
                 </p>
                 <p className="text-xs text-gray-500 mt-1">
-                  This may take a minute or two
+                  {progress && progress.totalSeconds > 0
+                    ? `Encoded ${formatSeconds(progress.encodedSeconds)} of ${formatSeconds(progress.totalSeconds)} (${progress.frame} frames)`
+                    : "This may take a minute or two"}
                 </p>
               </div>
             </div>
           </div>
+
+          <button
+            onClick={handleCancel}
+            className="w-full py-2 px-4 bg-gray-700 text-white font-medium rounded-lg hover:bg-gray-600 transition-colors"
+            disabled={!jobId || cancelling}
+          >
+            {cancelling ? "Cancelling..." : "Cancel"}
+          </button>
         </div>
       )}
 
@@ -1,12 +1,19 @@
 import React, { useState } from "react";
+import { AspectRatio, ASPECT_RATIOS, DEFAULT_ASPECT_RATIO } from "../lib/video/aspectRatio";
+import { DEFAULT_SCRIPT_MODE, ScriptMode } from "../lib/voiceover/dialogue";
+import { DEFAULT_SCRIPT_STYLE, ScriptStyle } from "../lib/voiceover/scriptStyle";
+import ScriptStyleOptions from "./ScriptStyleOptions";
 
 interface VideoIdeaFormProps {
-  onSubmit: (idea: string, duration: number) => void;
+  onSubmit: (idea: string, duration: number, aspectRatio: AspectRatio, scriptMode: ScriptMode, scriptStyle: ScriptStyle) => void;
 }
 
 const VideoIdeaForm: React.FC<VideoIdeaFormProps> = ({ onSubmit }) => {
   const [idea, setIdea] = useState("");
   const [duration, setDuration] = useState(1); // Default to 1 minute
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [scriptMode, setScriptMode] = useState<ScriptMode>(DEFAULT_SCRIPT_MODE);
+  const [scriptStyle, setScriptStyle] = useState<ScriptStyle>(DEFAULT_SCRIPT_STYLE);
   const [error, setError] = useState("");
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -18,7 +25,7 @@ const VideoIdeaForm: React.FC<VideoIdeaFormProps> = ({ onSubmit }) => {
     }
     
     setError("");
-    onSubmit(idea, duration);
+    onSubmit(idea, duration, aspectRatio, scriptMode, scriptStyle);
   };
 
   return (
@@ -60,6 +67,57 @@ const VideoIdeaForm: React.FC<VideoIdeaFormProps> = ({ onSubmit }) => {
           <p className="mt-2 text-sm text-gray-500">Select the target duration for your video script</p>
         </div>
 
+        <div>
+          <span className="block text-sm font-medium text-gray-400 mb-2">
+            Aspect Ratio
+          </span>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {(Object.keys(ASPECT_RATIOS) as AspectRatio[]).map((ratio) => (
+              <button
+                key={ratio}
+                type="button"
+                onClick={() => setAspectRatio(ratio)}
+                className={`p-3 rounded-lg border text-left transition-colors ${
+                  aspectRatio === ratio
+                    ? "bg-blue-600/20 border-blue-500 text-white"
+                    : "bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-800"
+                }`}
+              >
+                <span className="block text-sm font-medium">{ASPECT_RATIOS[ratio].label}</span>
+                <span className="block text-xs text-gray-500 mt-1">{ASPECT_RATIOS[ratio].description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-gray-400 mb-2">
+            Script Style
+          </span>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {([
+              { mode: "narration", label: "Narration", description: "A single narrator tells the story" },
+              { mode: "dialogue", label: "Dialogue", description: "Characters talk to each other, each with their own voice" },
+            ] as { mode: ScriptMode; label: string; description: string }[]).map((option) => (
+              <button
+                key={option.mode}
+                type="button"
+                onClick={() => setScriptMode(option.mode)}
+                className={`p-3 rounded-lg border text-left transition-colors ${
+                  scriptMode === option.mode
+                    ? "bg-blue-600/20 border-blue-500 text-white"
+                    : "bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-800"
+                }`}
+              >
+                <span className="block text-sm font-medium">{option.label}</span>
+                <span className="block text-xs text-gray-500 mt-1">{option.description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <ScriptStyleOptions style={scriptStyle} onChange={setScriptStyle} showPointOfView={scriptMode === "narration"} />
+
         <div className="examples space-y-3">
           <p className="text-sm text-gray-400 font-medium">Example ideas:</p>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
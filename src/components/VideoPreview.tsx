@@ -1,13 +1,38 @@
 import React, { useState } from "react";
 import toast from "react-hot-toast";
+import { AspectRatio, ASPECT_RATIOS, DEFAULT_ASPECT_RATIO } from "../lib/video/aspectRatio";
+import { LoudnessReport, LOUDNESS_TARGETS } from "../lib/video/loudness";
+import { Thumbnail, ThumbnailSource } from "../lib/video/thumbnails";
 
 interface VideoPreviewProps {
   videoUrl: string;
+  aspectRatio?: AspectRatio;
+  subtitles?: { srtUrl: string; vttUrl: string; estimated?: boolean } | null;
+  loudness?: LoudnessReport | null;
+  script: string;
+  timedImages?: { timestamp: number; imageBase64: string }[];
+  brandKitId?: string | null;
+  onPublish?: () => void;
   onReset: () => void;
 }
 
-const VideoPreview: React.FC<VideoPreviewProps> = ({ videoUrl, onReset }) => {
+const VideoPreview: React.FC<VideoPreviewProps> = ({
+  videoUrl,
+  aspectRatio = DEFAULT_ASPECT_RATIO,
+  subtitles,
+  loudness,
+  script,
+  timedImages = [],
+  brandKitId,
+  onPublish,
+  onReset,
+}) => {
+  const format = ASPECT_RATIOS[aspectRatio];
+
   const [copying, setCopying] = useState(false);
+  const [thumbnails, setThumbnails] = useState<Thumbnail[]>([]);
+  const [thumbnailSource, setThumbnailSource] = useState<ThumbnailSource>(timedImages.length > 0 ? "frames" : "generate");
+  const [generatingThumbnails, setGeneratingThumbnails] = useState(false);
 
   const handleDownload = () => {
     // Create an anchor element to trigger download
@@ -21,6 +46,57 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ videoUrl, onReset }) => {
     toast.success("Download started!");
   };
 
+  const handleDownloadSubtitles = (url: string, extension: "srt" | "vtt") => {
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `ai-generated-video-${Date.now()}.${extension}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    
+    toast.success(`${extension.toUpperCase()} download started!`);
+  };
+
+  const handleGenerateThumbnails = async () => {
+    try {
+      setGeneratingThumbnails(true);
+      const response = await fetch("/api/video/thumbnail", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          script,
+          timedImages: thumbnailSource === "frames" ? timedImages : [],
+          source: thumbnailSource,
+          brandKitId,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate thumbnails");
+      }
+
+      setThumbnails(data.thumbnails);
+      toast.success("Thumbnails generated!");
+    } catch (err: any) {
+      console.error("Error generating thumbnails:", err);
+      toast.error(err.message || "Failed to generate thumbnails");
+    } finally {
+      setGeneratingThumbnails(false);
+    }
+  };
+
+  const handleDownloadThumbnail = (url: string, variant: number) => {
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `ai-generated-thumbnail-${variant}-${Date.now()}.jpg`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
   const handleCopyLink = async () => {
     try {
       setCopying(true);
@@ -45,21 +121,34 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ videoUrl, onReset }) => {
         </p>
       </div>
 
-      <div className="bg-gray-900 rounded-lg border border-gray-700 overflow-hidden">
-        <div className="relative w-full" style={{ paddingBottom: "56.25%" }}>
+      <div
+        className="bg-gray-900 rounded-lg border border-gray-700 overflow-hidden mx-auto"
+        style={{ maxWidth: format.width >= format.height ? "100%" : "28rem" }}
+      >
+        <div className="relative w-full" style={{ paddingBottom: `${(format.height / format.width) * 100}%` }}>
           <video 
             controls 
             className="absolute top-0 left-0 w-full h-full object-contain bg-black" 
             src={videoUrl}
             poster="/video-poster.png"
-            width="1920"
-            height="1080"
+            width={format.width}
+            height={format.height}
           >
+            {subtitles && (
+              <track kind="captions" src={subtitles.vttUrl} srcLang="en" label="English" default />
+            )}
             Your browser does not support the video tag.
           </video>
         </div>
       </div>
 
+      {loudness && (
+        <div className="bg-gray-900 rounded-lg p-3 border border-gray-700 text-sm text-gray-300 flex flex-wrap justify-between gap-2">
+          <span>Loudness: {loudness.integrated.toFixed(1)} LUFS integrated, {loudness.truePeak.toFixed(1)} dBTP true peak</span>
+          <span className="text-gray-500">Target: {LOUDNESS_TARGETS[loudness.target]?.label ?? loudness.target}</span>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
         <button
           onClick={handleDownload}
@@ -102,7 +191,88 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ videoUrl, onReset }) => {
         </button>
       </div>
 
-      <div className="text-center pt-4">
+      {subtitles?.estimated && (
+        <p className="text-sm text-yellow-500">
+          The voiceover couldn&apos;t be transcribed, so the captions and subtitles are timed by estimate and may drift from the speech.
+        </p>
+      )}
+
+      {subtitles && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <button
+            onClick={() => handleDownloadSubtitles(subtitles.srtUrl, "srt")}
+            className="py-2 px-4 bg-gray-700 text-white font-medium rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Download Subtitles (SRT)
+          </button>
+          <button
+            onClick={() => handleDownloadSubtitles(subtitles.vttUrl, "vtt")}
+            className="py-2 px-4 bg-gray-700 text-white font-medium rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Download Subtitles (WebVTT)
+          </button>
+        </div>
+      )}
+
+      <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <h3 className="font-medium text-white">Thumbnails</h3>
+          <div className="flex gap-2">
+            {timedImages.length > 0 && (
+              <select
+                id="thumbnailSource"
+                value={thumbnailSource}
+                onChange={(e) => setThumbnailSource(e.target.value as ThumbnailSource)}
+                className="p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+              >
+                <option value="frames">Best video frames</option>
+                <option value="generate">New generated image</option>
+              </select>
+            )}
+            <button
+              onClick={handleGenerateThumbnails}
+              disabled={generatingThumbnails}
+              className="py-2 px-4 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {generatingThumbnails ? "Generating..." : thumbnails.length > 0 ? "Regenerate" : "Generate Thumbnails"}
+            </button>
+          </div>
+        </div>
+
+        {thumbnails.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {thumbnails.map((thumbnail, i) => (
+              <div key={thumbnail.url} className="space-y-2">
+                <img
+                  src={thumbnail.url}
+                  alt={thumbnail.headline}
+                  className="w-full aspect-video object-cover rounded-md border border-gray-700"
+                />
+                <button
+                  onClick={() => handleDownloadThumbnail(thumbnail.url, i + 1)}
+                  className="w-full py-2 px-4 bg-gray-700 text-white text-sm font-medium rounded-md hover:bg-gray-600 transition-colors"
+                >
+                  Download Variant {i + 1}
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">
+            Create 1280x720 YouTube thumbnails with a short hook headline written from the script
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-4 pt-4">
+        {onPublish && (
+          <button
+            onClick={onPublish}
+            className="py-2 px-4 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-900 transition-colors"
+          >
+            Create Publish Kit
+          </button>
+        )}
         <button
           onClick={onReset}
           className="py-2 px-4 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-900 transition-colors"
@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from "react";
+import toast from "react-hot-toast";
+import { useMicrophoneRecorder } from "../lib/hooks/useMicrophoneRecorder";
+import { MAX_SAMPLE_BYTES, MIN_SAMPLE_SECONDS, VOICE_CLONE_CONSENT } from "../lib/voiceover/voiceClones";
+import { Voice } from "../lib/voiceover/voices";
+
+interface VoiceCloneFormProps {
+  userId: string;
+  onCloned: (voice: Voice) => void;
+  onCancel: () => void;
+}
+
+// Something to read aloud while recording, varied enough for a good clone
+const READING_TEXT =
+  "Welcome back to the channel. Today we're looking at something I've wanted to talk about for a while. " +
+  "It's surprising, a little strange, and honestly pretty exciting. So grab a coffee, get comfortable, " +
+  "and let's get into it. By the end of this video, you'll see why it matters more than you'd think.";
+
+// Read a blob as a data URL for uploading in a JSON body
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const VoiceCloneForm: React.FC<VoiceCloneFormProps> = ({ userId, onCloned, onCancel }) => {
+  const microphone = useMicrophoneRecorder();
+  const [name, setName] = useState("");
+  const [speakerName, setSpeakerName] = useState("");
+  const [consented, setConsented] = useState(false);
+  const [sample, setSample] = useState<Blob | null>(null);
+  const [sampleUrl, setSampleUrl] = useState<string | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  // Recording timer
+  useEffect(() => {
+    if (!microphone.recording) return;
+    const started = Date.now();
+    const timer = setInterval(() => setElapsed((Date.now() - started) / 1000), 250);
+    return () => clearInterval(timer);
+  }, [microphone.recording]);
+
+  // A playable URL for the current sample
+  useEffect(() => {
+    if (!sample) {
+      setSampleUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(sample);
+    setSampleUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [sample]);
+
+  const handleRecord = async () => {
+    if (microphone.recording) {
+      setSample(await microphone.stop());
+      return;
+    }
+
+    try {
+      setSample(null);
+      setElapsed(0);
+      await microphone.start();
+    } catch (err: any) {
+      console.error("Error starting the microphone:", err);
+      toast.error("Could not access the microphone");
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > MAX_SAMPLE_BYTES) {
+      toast.error(`The sample must be under ${MAX_SAMPLE_BYTES / 1024 / 1024} MB`);
+      return;
+    }
+    setSample(file);
+  };
+
+  const handleSubmit = async () => {
+    if (!sample) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/elevenlabs/voice-clones", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          userId,
+          name,
+          sample: await readAsDataUrl(sample),
+          consent: { speakerName, agreed: consented },
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to clone voice");
+      }
+
+      toast.success(`Voice "${data.voice.name}" created`);
+      onCloned(data.voice);
+    } catch (err: any) {
+      console.error("Error cloning voice:", err);
+      toast.error(err.message || "Failed to clone voice");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canSubmit = sample && name.trim() && speakerName.trim() && consented && !saving && !microphone.recording;
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-medium text-white">Clone My Voice</h3>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="cloneName" className="block text-sm text-gray-400 mb-1">Voice name</label>
+          <input
+            type="text"
+            id="cloneName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Host narration"
+            className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="cloneSpeaker" className="block text-sm text-gray-400 mb-1">Speaker&apos;s name</label>
+          <input
+            type="text"
+            id="cloneSpeaker"
+            value={speakerName}
+            onChange={(e) => setSpeakerName(e.target.value)}
+            placeholder="Whose voice is in the sample"
+            className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-400">
+          Record or upload at least {MIN_SAMPLE_SECONDS} seconds of clear speech, one to two minutes works best.
+          You could read this aloud:
+        </p>
+        <p className="text-sm text-gray-300 italic bg-gray-800 rounded p-3">{READING_TEXT}</p>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={handleRecord}
+            className={`py-2 px-4 rounded-lg text-white font-medium transition-colors ${
+              microphone.recording ? "bg-red-600 hover:bg-red-700" : "bg-indigo-700 hover:bg-indigo-600"
+            }`}
+          >
+            {microphone.recording ? `Stop Recording (${Math.floor(elapsed)}s)` : "Start Recording"}
+          </button>
+          <span className="text-sm text-gray-500">or</span>
+          <input
+            type="file"
+            accept="audio/*"
+            onChange={handleFile}
+            disabled={microphone.recording}
+            className="text-sm text-gray-300"
+          />
+        </div>
+
+        {sampleUrl && <audio controls src={sampleUrl} className="w-full" />}
+      </div>
+
+      <label className="flex items-start gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={consented}
+          onChange={(e) => setConsented(e.target.checked)}
+          className="mt-1"
+        />
+        <span>{VOICE_CLONE_CONSENT}</span>
+      </label>
+
+      <button
+        type="button"
+        onClick={handleSubmit}
+        disabled={!canSubmit}
+        className="w-full py-2 px-4 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {saving ? "Creating voice..." : "Create Voice Clone"}
+      </button>
+    </div>
+  );
+};
+
+export default VoiceCloneForm;
@@ -0,0 +1,107 @@
+import React from "react";
+import {
+  DEFAULT_VOICE_SETTINGS,
+  MAX_SPEECH_SPEED,
+  MIN_SPEECH_SPEED,
+  TTS_MODELS,
+  TtsModelId,
+  VoiceSettings,
+} from "../lib/voiceover/voiceSettings";
+
+interface VoiceSettingsOptionsProps {
+  settings: VoiceSettings;
+  onChange: (settings: VoiceSettings) => void;
+}
+
+const SLIDERS: { key: "stability" | "similarityBoost" | "style"; label: string; hint: string }[] = [
+  { key: "stability", label: "Stability", hint: "Lower for a more expressive read, higher for a steadier one" },
+  { key: "similarityBoost", label: "Similarity", hint: "How closely the read sticks to the original voice" },
+  { key: "style", label: "Style exaggeration", hint: "Amplifies the voice's style, can reduce stability" },
+];
+
+const VoiceSettingsOptions: React.FC<VoiceSettingsOptionsProps> = ({ settings, onChange }) => {
+  const update = (changes: Partial<VoiceSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="space-y-4 p-4 bg-gray-900 rounded-lg border border-gray-700">
+      <div className="flex justify-between items-center">
+        <h3 className="font-medium text-white">Voice Settings</h3>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_VOICE_SETTINGS)}
+          className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div>
+        <label htmlFor="ttsModel" className="block text-sm text-gray-400 mb-1">
+          Model
+        </label>
+        <select
+          id="ttsModel"
+          value={settings.modelId}
+          onChange={(e) => update({ modelId: e.target.value as TtsModelId })}
+          className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+        >
+          {TTS_MODELS.map((model) => (
+            <option key={model.value} value={model.value}>{model.label} - {model.description}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {SLIDERS.map(({ key, label, hint }) => (
+          <div key={key}>
+            <label htmlFor={`voice-${key}`} className="block text-sm text-gray-400 mb-1">
+              {label}: {Math.round(settings[key] * 100)}%
+            </label>
+            <input
+              type="range"
+              id={`voice-${key}`}
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings[key]}
+              onChange={(e) => update({ [key]: Number(e.target.value) })}
+              className="w-full"
+            />
+            <p className="text-xs text-gray-500 mt-1">{hint}</p>
+          </div>
+        ))}
+
+        <div>
+          <label htmlFor="voiceSpeed" className="block text-sm text-gray-400 mb-1">
+            Speaking rate: {settings.speed.toFixed(2)}x
+          </label>
+          <input
+            type="range"
+            id="voiceSpeed"
+            min={MIN_SPEECH_SPEED}
+            max={MAX_SPEECH_SPEED}
+            step="0.05"
+            value={settings.speed}
+            onChange={(e) => update({ speed: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={settings.useSpeakerBoost}
+          onChange={(e) => update({ useSpeakerBoost: e.target.checked })}
+        />
+        Speaker boost
+      </label>
+
+      <p className="text-xs text-gray-500">
+        Regenerate the voiceover to hear changes, the settings are saved with it
+      </p>
+    </div>
+  );
+};
+
+export default VoiceSettingsOptions;
@@ -1,128 +1,92 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import toast from "react-hot-toast";
+import { WordTiming } from "../lib/voiceover/alignment";
+import { TimedSpeechChunk } from "../lib/voiceover/chunks";
+import { VoiceoverClip, getClipsScript } from "../lib/voiceover/clips";
+import { DEFAULT_PACING, PacingSettings } from "../lib/voiceover/pacing";
+import {
+  DEFAULT_LINE_GAP,
+  MAX_LINE_GAP,
+  ScriptMode,
+  TimedDialogueLine,
+  getSpeakers,
+  parseDialogue,
+} from "../lib/voiceover/dialogue";
+import { LOCAL_VOICES, TTS_PROVIDERS, TtsProviderId } from "../lib/voiceover/ttsProviders";
+import { VoiceSettings } from "../lib/voiceover/voiceSettings";
+import { Voice, findMatchingVoices, getCategoryLabel, getLabelValues } from "../lib/voiceover/voices";
+import { useLocalUserId } from "../lib/hooks/useLocalUserId";
+import PacingOptions from "./PacingOptions";
+import PronunciationDictionary from "./PronunciationDictionary";
+import VoiceCloneForm from "./VoiceCloneForm";
+import VoiceSettingsOptions from "./VoiceSettingsOptions";
+import VoiceoverParagraphs from "./VoiceoverParagraphs";
+
+// A narration voiceover as the step hands it on
+interface NarrationVoiceover {
+  audioBase64: string;
+  voiceId: string;
+  alignment: WordTiming[];
+  clips?: VoiceoverClip[]; // The voiceover paragraph by paragraph
+  chunks?: TimedSpeechChunk[]; // Where each clip sits in the track
+  pacing?: PacingSettings | null; // How the clips were paced when stitched, null for as rendered
+  // Whether the track only changed by re-stitching the clips it was handed on with, since the
+  // step was opened: the same paragraphs, some rendered again or paced
+  restitched?: boolean;
+}
 
 interface VoiceoverGenerationProps {
   script: string;
-  onVoiceoverGenerated: (data: { audioBase64: string; voiceId: string; script: string }) => void;
+  scriptMode?: ScriptMode;
+  voiceover?: NarrationVoiceover; // The voiceover made earlier, when coming back to this step
+  ttsProvider: TtsProviderId;
+  onTtsProviderChange: (provider: TtsProviderId) => void;
+  voiceSettings: VoiceSettings;
+  onVoiceSettingsChange: (settings: VoiceSettings) => void;
+  onVoiceoverGenerated: (data: NarrationVoiceover & {
+    script: string;
+    dialogue?: { script: string; lines: TimedDialogueLine[] }; // The labelled script and where each line landed
+    voiceSettings: VoiceSettings; // The settings the audio was rendered with
+    ttsProvider: TtsProviderId; // The engine the audio was rendered with
+  }) => void;
   onBack: () => void;
   autoGenerate?: boolean;
 }
 
-interface Voice {
-  id: string;
-  name: string;
-  description: string;
-  category: 'standard' | 'premium';
-  preview?: string;
-  tags?: string[];
-  previewText?: string;
-}
-
-const VOICES: Voice[] = [
-  // Premium storytelling voices
-  {
-    id: "XrExE9yKIg1WjnnlVkGX",
-    name: "Matilda",
-    description: "Warm, young female voice with an American accent",
-    category: 'premium',
-    tags: ['storytelling', 'warm', 'young'],
-    previewText: "Welcome to this haunting tale of mystery and suspense."
-  },
-  {
-    id: "flq6f7yk4E4fJM5XTYuZ",
-    name: "Michael",
-    description: "Old male voice with an American accent",
-    category: 'premium',
-    tags: ['storytelling', 'old', 'deep'],
-    previewText: "Listen closely as I share a story that will touch your heart."
-  },
-  {
-    id: "21m00Tcm4TlvDq8ikWAM",
-    name: "Rachel",
-    description: "Calm, young female voice with an American accent",
-    category: 'premium',
-    tags: ['storytelling', 'calm', 'young'],
-    previewText: "I never believed in ghosts until that night."
-  },
-  {
-    id: "piTKgcLEGmPE4e6mEKli",
-    name: "Nicole",
-    description: "Whispering, young female voice with an American accent",
-    category: 'premium',
-    tags: ['storytelling', 'whispering', 'intimate'],
-    previewText: "The shadows moved in ways that defied explanation."
-  },
-  {
-    id: "5Q0t7uMcjvnagumLfvZi",
-    name: "Paul",
-    description: "Middle-aged male voice with an American accent, ground reporter style",
-    category: 'premium',
-    tags: ['storytelling', 'documentary', 'reporter'],
-    previewText: "In the shadows of that old house, something waited for me."
-  },
-  // Standard voices
-  {
-    id: "EXAVITQu4vr4xnSDxMaL",
-    name: "Sarah",
-    description: "Warm female voice with a natural tone",
-    category: 'standard',
-    tags: ['clear', 'friendly'],
-    previewText: "Let me tell you about something strange that happened to me."
-  },
-  {
-    id: "onwK4e9ZLuTAKqWW03F9",
-    name: "Josh",
-    description: "Deep male voice with a smooth delivery",
-    category: 'standard',
-    tags: ['deep', 'smooth'],
-    previewText: "The night was dark, and the winds howled through the trees."
-  },
-  {
-    id: "N2lVS1w4EtoT3dr4eOWO",
-    name: "Emma",
-    description: "British female with a professional tone",
-    category: 'standard',
-    tags: ['british', 'professional'],
-    previewText: "As I walked down the abandoned corridor, I heard footsteps behind me."
-  },
-  {
-    id: "TxGEqnHWrfWFTfGW9XjX",
-    name: "Michael C. Vincent",
-    description: "Clear male voice with an authoritative tone",
-    category: 'standard',
-    tags: ['clear', 'authoritative'],
-    previewText: "What I'm about to tell you defies all logical explanation."
-  },
-  {
-    id: "D38z5RcWu1voky8WS1ja",
-    name: "Grace",
-    description: "Calm female voice ideal for narration",
-    category: 'standard',
-    tags: ['calm', 'narration'],
-    previewText: "I felt a chill run down my spine as I entered the room."
-  }
-];
+// Read by voices that have no hosted sample
+const PREVIEW_TEXT = "I never believed in ghosts until that night.";
 
 const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
   script,
+  scriptMode = "narration",
+  voiceover,
+  ttsProvider,
+  onTtsProviderChange,
+  voiceSettings,
+  onVoiceSettingsChange,
   onVoiceoverGenerated,
   onBack,
   autoGenerate = true,
 }) => {
   const [loading, setLoading] = useState(false);
-  const [selectedVoice, setSelectedVoice] = useState<string | null>(null);
-  const [audioData, setAudioData] = useState<string | null>(null);
+  const [selectedVoice, setSelectedVoice] = useState<string | null>(voiceover?.voiceId || null);
+  const [audioData, setAudioData] = useState<string | null>(voiceover?.audioBase64 || null);
+  const [alignment, setAlignment] = useState<WordTiming[]>(voiceover?.alignment || []);
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [filterCategory, setFilterCategory] = useState<'all' | 'premium' | 'standard' | 'indian' | 'african'>('all');
+  const [voices, setVoices] = useState<Voice[]>([]);
+  const [voicesLoading, setVoicesLoading] = useState(true);
+  const [showCloneForm, setShowCloneForm] = useState(false);
+  const userId = useLocalUserId();
+  const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [filterAccent, setFilterAccent] = useState<string>('all');
   const [previewLoading, setPreviewLoading] = useState<string | null>(null);
   const [previewAudio, setPreviewAudio] = useState<{ [key: string]: HTMLAudioElement }>({});
   const [previewData, setPreviewData] = useState<{ [key: string]: string }>({});
-  const [shortPreview, setShortPreview] = useState(true);
   // New states for script analysis
   const [scriptAnalysis, setScriptAnalysis] = useState<any>(null);
   const [analyzingScript, setAnalyzingScript] = useState(false);
-  const [recommendedVoices, setRecommendedVoices] = useState<Voice[]>([]);
+  const recommendedVoices = useMemo(() => findMatchingVoices(voices, scriptAnalysis), [voices, scriptAnalysis]);
   
   // States for play/pause controls
   const [isPlaying, setIsPlaying] = useState<string | null>(null);
@@ -138,12 +102,94 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
   const [showScriptEditor, setShowScriptEditor] = useState<boolean>(false);
   const [scriptWordCount, setScriptWordCount] = useState<number>(0);
 
+  // Dialogue states: a voice per speaker, the gap between lines and the rendered line timing
+  const [speakerVoices, setSpeakerVoices] = useState<{ [speaker: string]: string }>({});
+  const [lineGap, setLineGap] = useState<number>(DEFAULT_LINE_GAP);
+  const [dialogueLines, setDialogueLines] = useState<TimedDialogueLine[]>([]);
+  const [spokenScript, setSpokenScript] = useState<string>("");
+
+  // Settings the current audio was rendered with, the sliders may have moved since
+  const [renderedSettings, setRenderedSettings] = useState<VoiceSettings>(voiceSettings);
+  const [renderedProvider, setRenderedProvider] = useState<TtsProviderId>(ttsProvider);
+
+  // The narration paragraph by paragraph, and the paragraph being rendered again
+  const [clips, setClips] = useState<VoiceoverClip[]>(voiceover?.clips || []);
+  const [clipTimings, setClipTimings] = useState<TimedSpeechChunk[]>(voiceover?.chunks || []);
+  const [renderingClip, setRenderingClip] = useState<number | null>(null);
+
+  // Pacing being set up, and the pacing the current track was stitched with
+  const [pacing, setPacing] = useState<PacingSettings>(voiceover?.pacing || DEFAULT_PACING);
+  const [pacedWith, setPacedWith] = useState<PacingSettings | null>(voiceover?.pacing || null);
+  // A voiceover made earlier and only re-stitched since keeps the images made for it
+  const [restitched, setRestitched] = useState(!!voiceover?.clips);
+  const [pacingBusy, setPacingBusy] = useState(false);
+  const isLocal = ttsProvider === "local";
+
+  const dialogue = scriptMode === "dialogue" ? parseDialogue(editableScript) : [];
+  const speakers = getSpeakers(dialogue);
+  const isDialogue = dialogue.length > 0;
+
+  // Load the account's voice catalogue, with this user's clones as custom voices
+  const loadVoices = async (refresh: boolean = false) => {
+    setVoicesLoading(true);
+    try {
+      const params = new URLSearchParams({ userId: userId || "" });
+      if (refresh) params.set("refresh", "1");
+      const response = await fetch(`/api/elevenlabs/voices?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load voices");
+      }
+      // Dropped if the project switched to the local engine meanwhile
+      setVoices(prev => prev === LOCAL_VOICES ? prev : data.voices || []);
+    } catch (err) {
+      console.error("Error loading voices:", err);
+      toast.error("Failed to load voices from ElevenLabs");
+    } finally {
+      setVoicesLoading(false);
+    }
+  };
+
+  // The local engine has a fixed set of voices, ElevenLabs lists the account's
+  useEffect(() => {
+    if (isLocal) {
+      setVoices(LOCAL_VOICES);
+      setVoicesLoading(false);
+    } else if (userId) {
+      setVoices([]);
+      loadVoices();
+    }
+  }, [userId, isLocal]);
+
+  // Load the voiceover made earlier into the player
+  useEffect(() => {
+    if (!voiceover?.audioBase64) return;
+    const audio = new Audio(`data:audio/mp3;base64,${voiceover.audioBase64}`);
+    audio.addEventListener('loadedmetadata', () => {
+      setAudioDuration(audio.duration);
+    });
+    setAudioElement(audio);
+  }, []);
+
   // Set initial script and word count
   useEffect(() => {
     setEditableScript(script);
     setScriptWordCount(script.trim().split(/\s+/).length);
   }, [script]);
 
+  // Give every new speaker a voice, a different one for each while there are enough
+  useEffect(() => {
+    const newSpeakers = speakers.filter(speaker => !speakerVoices[speaker]);
+    if (newSpeakers.length === 0 || voices.length === 0) return;
+
+    const assigned = { ...speakerVoices };
+    newSpeakers.forEach(speaker => {
+      const used = Object.values(assigned);
+      assigned[speaker] = (voices.find(voice => !used.includes(voice.id)) || voices[0]).id;
+    });
+    setSpeakerVoices(assigned);
+  }, [speakers.join("\n"), voices]);
+
   // Analyze script for gender and tone on component mount
   useEffect(() => {
     if (script && !scriptAnalysis && !analyzingScript) {
@@ -180,14 +226,14 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
   useEffect(() => {
     // Auto-generate with default voice if autoGenerate is true
     if (autoGenerate && !loading && !audioData && !error && !analyzingScript && !scriptAnalysis) {
-      // Use the first premium voice by default
-      const defaultVoice = VOICES.find(voice => voice.category === 'premium')?.id;
+      // Use the first voice of the catalogue by default
+      const defaultVoice = voices[0]?.id;
       if (defaultVoice) {
         setSelectedVoice(defaultVoice);
         generateVoiceover(defaultVoice);
       }
     }
-  }, [autoGenerate, script, analyzingScript, scriptAnalysis]);
+  }, [autoGenerate, script, analyzingScript, scriptAnalysis, voices]);
 
   // Add event listeners for play/pause to all audio elements
   useEffect(() => {
@@ -331,14 +377,21 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
     setPreviewLoading(voiceId);
     
     try {
-      const voice = VOICES.find(v => v.id === voiceId);
-      if (!voice || !voice.previewText) {
-        throw new Error("Voice or preview text not found");
+      const voice = voices.find(v => v.id === voiceId);
+      if (!voice) {
+        throw new Error("Voice not found");
       }
 
-      const previewText = shortPreview 
-        ? voice.previewText.split(" ").slice(0, 10).join(" ") // Just first 10 words for quick preview
-        : voice.previewText;
+      // Play the voice's ElevenLabs sample when it has one
+      if (voice.previewUrl) {
+        const audio = new Audio(voice.previewUrl);
+        setPreviewData(prev => ({ ...prev, [voiceId]: voice.previewUrl as string }));
+        setPreviewAudio(prev => ({ ...prev, [voiceId]: audio }));
+        Object.values(previewAudio).forEach(a => a.pause());
+        audio.play().catch(e => console.error("Audio playback error:", e));
+        setPreviewPlayState(prev => ({ ...prev, [voiceId]: true }));
+        return;
+      }
 
       const response = await fetch("/api/elevenlabs/text-to-speech", {
         method: "POST",
@@ -346,8 +399,9 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          text: previewText,
+          text: PREVIEW_TEXT,
           voiceId: voiceId,
+          provider: ttsProvider,
         }),
       });
 
@@ -448,97 +502,89 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
       }
 
       const data = await response.json();
+      // The recommended voices follow from the analysis, matched against the catalogue
       setScriptAnalysis(data);
-      
-      // Filter voices based on analysis
-      const filteredVoices = findMatchingVoices(data);
-      setRecommendedVoices(filteredVoices);
-      
-      // If auto-generate is enabled, select the first recommended voice
-      if (filteredVoices.length > 0 && autoGenerate && !selectedVoice) {
-        setSelectedVoice(filteredVoices[0].id);
-        // Set the filter category to match the recommended voice type
-        if (filteredVoices[0].tags?.includes('indian')) {
-          setFilterCategory('indian');
-        } else if (filteredVoices[0].tags?.includes('african')) {
-          setFilterCategory('african');
-        } else {
-          setFilterCategory(filteredVoices[0].category);
-        }
-      }
     } catch (err) {
       console.error("Error analyzing script:", err);
       // Fall back to default behavior if analysis fails
-      if (autoGenerate && !selectedVoice) {
-        const defaultVoice = VOICES.find(voice => voice.category === 'premium')?.id;
-        if (defaultVoice) {
-          setSelectedVoice(defaultVoice);
-        }
+      if (autoGenerate && !selectedVoice && voices.length > 0) {
+        setSelectedVoice(voices[0].id);
       }
     } finally {
       setAnalyzingScript(false);
     }
   };
 
-  // Find matching voices based on script analysis
-  const findMatchingVoices = (analysis: any): Voice[] => {
-    if (!analysis) return [];
-    
-    const { gender, tone, qualities, accent } = analysis;
-    
-    // Start with all voices
-    let matches = [...VOICES];
-    
-    // Filter by gender if specified
-    if (gender === 'male') {
-      matches = matches.filter(voice => 
-        voice.description.toLowerCase().includes('male') && 
-        !voice.description.toLowerCase().includes('female')
-      );
-    } else if (gender === 'female') {
-      matches = matches.filter(voice => 
-        voice.description.toLowerCase().includes('female')
-      );
-    }
-    
-    // Filter by accent if specified
-    if (accent) {
-      const accentLower = accent.toLowerCase();
-      if (accentLower.includes('indian')) {
-        matches = matches.filter(voice => voice.tags?.includes('indian'));
-      } else if (accentLower.includes('african')) {
-        matches = matches.filter(voice => voice.tags?.includes('african'));
-      } else if (accentLower.includes('british')) {
-        matches = matches.filter(voice => voice.tags?.includes('british'));
-      }
-    }
-    
-    // Filter by tone/qualities if specified
-    if (tone && tone.length > 0) {
-      const toneMatches = matches.filter(voice => {
-        const voiceDesc = voice.description.toLowerCase();
-        const voiceTags = voice.tags || [];
-        return tone.some((t: string) => 
-          voiceDesc.includes(t.toLowerCase()) || 
-          voiceTags.some(tag => tag.toLowerCase().includes(t.toLowerCase()))
-        );
+  // Render every line with its speaker's voice, joined into one track by the server
+  const generateDialogue = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/elevenlabs/dialogue", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          script: editableScript,
+          voices: speakerVoices,
+          gap: lineGap,
+          provider: ttsProvider,
+          settings: voiceSettings,
+          userId,
+        }),
       });
-      
-      // Only apply this filter if we get results, otherwise keep original matches
-      if (toneMatches.length > 0) {
-        matches = toneMatches;
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to generate dialogue");
+      }
+
+      const data = await response.json();
+
+      if (!data.audioBase64) {
+        throw new Error("No audio data received");
       }
+
+      setAudioData(data.audioBase64);
+      setAlignment(Array.isArray(data.alignment) ? data.alignment : []);
+      setDialogueLines(Array.isArray(data.lines) ? data.lines : []);
+      setRestitched(false);
+      setSpokenScript(data.script);
+      setRenderedSettings(voiceSettings);
+      setRenderedProvider(ttsProvider);
+
+      const audio = new Audio(`data:audio/mp3;base64,${data.audioBase64}`);
+      setAudioElement(audio);
+      audio.addEventListener('loadedmetadata', () => {
+        setAudioDuration(audio.duration);
+      });
+      audio.play().catch(e => console.error("Audio playback error:", e));
+      setIsPlaying('main');
+    } catch (err) {
+      console.error("Error generating dialogue:", err);
+      setError((err as Error).message);
+      toast.error("Failed to generate dialogue. Please try again.");
+    } finally {
+      setLoading(false);
     }
-    
-    // If no matches, return all voices
-    if (matches.length === 0) {
-      return VOICES;
+  };
+
+  const handleSpeakerVoiceChange = (speaker: string, voiceId: string) => {
+    setSpeakerVoices(prev => ({ ...prev, [speaker]: voiceId }));
+    setAudioData(null); // The dialogue needs rendering again with the new voice
+    if (audioElement) {
+      audioElement.pause();
+      setAudioElement(null);
     }
-    
-    return matches;
   };
 
   const generateVoiceover = async (voiceId: string = selectedVoice || "") => {
+    if (isDialogue) {
+      return generateDialogue();
+    }
+
     if (!voiceId) {
       toast.error("Please select a voice first");
       return;
@@ -556,6 +602,10 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
         body: JSON.stringify({
           text: editableScript, // Use the editable script instead of the original
           voiceId: voiceId,
+          provider: ttsProvider,
+          settings: voiceSettings,
+          paragraphs: true, // A clip per paragraph, to render one again later
+          userId,
         }),
       });
 
@@ -571,6 +621,13 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
       }
       
       setAudioData(data.audioBase64);
+      setAlignment(Array.isArray(data.alignment) ? data.alignment : []);
+      setClips((data.clips || []).map((clip: VoiceoverClip) => ({ ...clip, settings: voiceSettings })));
+      setClipTimings(data.chunks || []);
+      setPacedWith(null); // Straight from the engine, pacing is applied afterwards
+      setRestitched(false);
+      setRenderedSettings(voiceSettings);
+      setRenderedProvider(ttsProvider);
       
       // Create audio element for preview
       const audio = new Audio(`data:audio/mp3;base64,${data.audioBase64}`);
@@ -593,7 +650,141 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
     }
   };
 
-  const handleVoiceSelect = (voiceId: string) => {
+  // Join the clips into the voiceover again, after one of them changed or to pace them.
+  // Keeps the current pacing unless told otherwise.
+  const stitchClips = async (nextClips: VoiceoverClip[], nextPacing: PacingSettings | null = pacedWith) => {
+    const response = await fetch("/api/voiceover/stitch", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        clips: nextClips,
+        pacing: nextPacing,
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to stitch the voiceover");
+    }
+
+    const nextScript = getClipsScript(nextClips);
+    setClips(nextClips);
+    setClipTimings(data.chunks || []);
+    setPacedWith(nextPacing);
+    setEditableScript(nextScript);
+    setScriptWordCount(nextScript.trim().split(/\s+/).length);
+    setAudioData(data.audioBase64);
+    setAlignment(Array.isArray(data.alignment) ? data.alignment : []);
+    setRenderedSettings(voiceSettings);
+    setRenderedProvider(ttsProvider);
+
+    if (audioElement) {
+      audioElement.pause();
+    }
+    const audio = new Audio(`data:audio/mp3;base64,${data.audioBase64}`);
+    audio.addEventListener('loadedmetadata', () => {
+      setAudioDuration(audio.duration);
+    });
+    setAudioElement(audio);
+    setAudioDuration(data.duration || 0);
+    setCurrentTime(0);
+  };
+
+  // Stitch the clips again with the pacing settings, or without any pacing
+  const applyPacing = async (nextPacing: PacingSettings | null) => {
+    setPacingBusy(true);
+    try {
+      await stitchClips(clips, nextPacing);
+      toast.success(nextPacing ? "Pacing applied" : "Pacing removed");
+    } catch (err) {
+      console.error("Error pacing voiceover:", err);
+      toast.error((err as Error).message || "Failed to pace the voiceover");
+    } finally {
+      setPacingBusy(false);
+    }
+  };
+
+  // Render one paragraph again, edited or as it was, with the current voice settings and
+  // its neighbours as context, then re-stitch the track around it
+  const renderClip = async (index: number, text: string) => {
+    if (!selectedVoice) {
+      toast.error("Please select a voice first");
+      return;
+    }
+
+    setRenderingClip(index);
+    try {
+      const response = await fetch("/api/elevenlabs/text-to-speech", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          text,
+          voiceId: selectedVoice,
+          provider: ttsProvider,
+          settings: voiceSettings,
+          paragraphs: true,
+          previousText: clips[index - 1]?.text,
+          nextText: clips[index + 1]?.text,
+          userId,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to render the paragraph");
+      }
+
+      // An edit that added a paragraph break comes back as more than one clip
+      const rendered: VoiceoverClip[] = (data.clips || []).map((clip: VoiceoverClip) => ({ ...clip, settings: voiceSettings }));
+      if (rendered.length === 0) {
+        throw new Error("No audio data received");
+      }
+
+      await stitchClips([...clips.slice(0, index), ...rendered, ...clips.slice(index + 1)]);
+      toast.success(`Paragraph ${index + 1} rendered again`);
+    } catch (err) {
+      console.error("Error rendering paragraph:", err);
+      toast.error((err as Error).message || "Failed to render the paragraph");
+    } finally {
+      setRenderingClip(null);
+    }
+  };
+
+  // Play the voiceover from the start of a paragraph
+  const playClip = (index: number) => {
+    const timing = clipTimings[index];
+    if (!audioElement || !timing) return;
+
+    Object.values(previewAudio).forEach(audio => audio.pause());
+    audioElement.currentTime = timing.start;
+    audioElement.play().catch(e => console.error("Audio playback error:", e));
+  };
+
+  // A new clone joins the catalogue and, for narration, becomes the selected voice
+  const handleVoiceCloned = (voice: Voice) => {
+    setVoices(prev => [voice, ...prev.filter(v => v.id !== voice.id)]);
+    setShowCloneForm(false);
+    setFilterCategory('all');
+    if (!isDialogue) {
+      handleVoiceSelect(voice.id);
+    }
+  };
+
+  // Voice IDs belong to one engine, so switching starts the voice choice over
+  const handleProviderChange = (provider: TtsProviderId) => {
+    onTtsProviderChange(provider);
+    handleVoiceSelect(null);
+    setSpeakerVoices({});
+    setFilterCategory('all');
+    setFilterAccent('all');
+    setShowCloneForm(false);
+  };
+
+  const handleVoiceSelect = (voiceId: string | null) => {
     setSelectedVoice(voiceId);
     setAudioData(null); // Clear previous audio when selecting a new voice
     if (audioElement) {
@@ -605,11 +796,28 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
   };
 
   const handleContinue = () => {
-    if (audioData && selectedVoice) {
+    if (audioData && isDialogue) {
+      onVoiceoverGenerated({
+        audioBase64: audioData,
+        voiceId: speakerVoices[speakers[0]],
+        script: spokenScript, // The spoken words without speaker labels, for captions and images
+        alignment,
+        dialogue: { script: editableScript, lines: dialogueLines },
+        voiceSettings: renderedSettings,
+        ttsProvider: renderedProvider,
+      });
+    } else if (audioData && selectedVoice) {
       onVoiceoverGenerated({
         audioBase64: audioData,
         voiceId: selectedVoice,
         script: editableScript, // Pass the potentially edited script
+        alignment, // Word timings of the voiceover
+        clips,
+        chunks: clipTimings,
+        restitched,
+        pacing: pacedWith,
+        voiceSettings: renderedSettings,
+        ttsProvider: renderedProvider,
       });
     } else {
       toast.error("Please generate a voiceover first");
@@ -629,13 +837,12 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
     }
   };
 
-  const filteredVoices = filterCategory === 'all' 
-    ? VOICES 
-    : filterCategory === 'indian'
-    ? VOICES.filter(voice => voice.tags && voice.tags.includes('indian'))
-    : filterCategory === 'african'
-    ? VOICES.filter(voice => voice.tags && voice.tags.includes('african'))
-    : VOICES.filter(voice => voice.category === filterCategory);
+  const categories = Array.from(new Set(voices.map(voice => voice.category)));
+  const accents = getLabelValues(voices, "accent");
+  const filteredVoices = voices.filter(voice =>
+    (filterCategory === 'all' || voice.category === filterCategory) &&
+    (filterAccent === 'all' || voice.labels.accent === filterAccent)
+  );
 
   return (
     <div className="space-y-6">
@@ -645,12 +852,35 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
           Choose a voice for your video narration
         </p>
         <div className="flex justify-center mt-2 space-x-4">
-          <button
-            onClick={() => setShortPreview(!shortPreview)}
-            className="text-xs px-3 py-1 bg-gray-700 text-gray-300 rounded-full hover:bg-gray-600 transition-colors"
+          <select
+            value={ttsProvider}
+            onChange={(e) => handleProviderChange(e.target.value as TtsProviderId)}
+            disabled={loading}
+            className="text-xs px-3 py-1 bg-gray-700 text-gray-300 rounded-full"
+            title="Text-to-speech engine"
           >
-            {shortPreview ? "Using short previews" : "Using full previews"}
-          </button>
+            {TTS_PROVIDERS.map((provider) => (
+              <option key={provider.value} value={provider.value}>{provider.label} - {provider.description}</option>
+            ))}
+          </select>
+          {!isLocal && (
+            <>
+              <button
+                onClick={() => loadVoices(true)}
+                className="text-xs px-3 py-1 bg-gray-700 text-gray-300 rounded-full hover:bg-gray-600 transition-colors"
+                disabled={voicesLoading}
+              >
+                {voicesLoading ? "Loading voices..." : "Refresh voices"}
+              </button>
+              <button
+                onClick={() => setShowCloneForm(!showCloneForm)}
+                className="text-xs px-3 py-1 bg-gray-700 text-gray-300 rounded-full hover:bg-gray-600 transition-colors"
+                disabled={!userId}
+              >
+                Clone my voice
+              </button>
+            </>
+          )}
           <button
             onClick={() => setShowScriptEditor(!showScriptEditor)}
             className="text-xs px-3 py-1 bg-gray-700 text-gray-300 rounded-full hover:bg-gray-600 transition-colors"
@@ -660,6 +890,10 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
         </div>
       </div>
 
+      {showCloneForm && userId && !isLocal && (
+        <VoiceCloneForm userId={userId} onCloned={handleVoiceCloned} onCancel={() => setShowCloneForm(false)} />
+      )}
+
       {/* Script Editor Section */}
       {showScriptEditor && (
         <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
@@ -718,9 +952,9 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
               Back
             </button>
             <button
-              onClick={() => selectedVoice && generateVoiceover()}
+              onClick={() => (isDialogue || selectedVoice) && generateVoiceover()}
               className="flex-1 py-2 px-4 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
-              disabled={!selectedVoice}
+              disabled={!isDialogue && !selectedVoice}
             >
               Try Again
             </button>
@@ -728,115 +962,170 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
         </div>
       ) : (
         <>
-          <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
-            <div className="mb-4 flex justify-center space-x-4">
-              <button
-                onClick={() => setFilterCategory('all')}
-                className={`px-3 py-1 rounded-md ${filterCategory === 'all' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
-              >
-                All Voices
-              </button>
-              <button
-                onClick={() => setFilterCategory('premium')}
-                className={`px-3 py-1 rounded-md ${filterCategory === 'premium' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
-              >
-                Premium
-              </button>
-              <button
-                onClick={() => setFilterCategory('standard')}
-                className={`px-3 py-1 rounded-md ${filterCategory === 'standard' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
-              >
-                Standard
-              </button>
-              <button
-                onClick={() => setFilterCategory('indian')}
-                className={`px-3 py-1 rounded-md ${filterCategory === 'indian' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
-              >
-                Indian
-              </button>
-              <button
-                onClick={() => setFilterCategory('african')}
-                className={`px-3 py-1 rounded-md ${filterCategory === 'african' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
-              >
-                African
-              </button>
+          {isDialogue ? (
+            <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-4">
+              <h3 className="font-medium text-white">Speaker Voices</h3>
+              {speakers.map((speaker) => (
+                <div key={speaker} className="flex flex-wrap items-center gap-3">
+                  <label htmlFor={`speaker-${speaker}`} className="w-32 text-sm text-gray-300 truncate">{speaker}</label>
+                  <select
+                    id={`speaker-${speaker}`}
+                    value={speakerVoices[speaker] || ""}
+                    onChange={(e) => handleSpeakerVoiceChange(speaker, e.target.value)}
+                    className="flex-1 p-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm"
+                  >
+                    {voices.map((voice) => (
+                      <option key={voice.id} value={voice.id}>{voice.name} - {voice.description}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => speakerVoices[speaker] && generateVoicePreview(speakerVoices[speaker])}
+                    className="text-sm px-3 py-1 bg-indigo-700 text-white rounded hover:bg-indigo-600 transition-colors"
+                    disabled={previewLoading === speakerVoices[speaker]}
+                  >
+                    {previewLoading === speakerVoices[speaker] ? "Loading..." : previewPlayState[speakerVoices[speaker]] ? "Pause" : "Preview"}
+                  </button>
+                </div>
+              ))}
+              <div>
+                <label htmlFor="lineGap" className="block text-sm text-gray-400 mb-1">
+                  Gap between lines: {lineGap.toFixed(2)} seconds
+                </label>
+                <input
+                  type="range"
+                  id="lineGap"
+                  min="0"
+                  max={MAX_LINE_GAP}
+                  step="0.05"
+                  value={lineGap}
+                  onChange={(e) => {
+                    setLineGap(parseFloat(e.target.value));
+                    setAudioData(null);
+                  }}
+                  className="w-full"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                {dialogue.length} lines from {speakers.length} speakers, each rendered with its speaker&apos;s voice
+              </p>
             </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {filteredVoices.map((voice) => {
-                const isRecommended = recommendedVoices.length > 0 && recommendedVoices[0]?.id === voice.id;
-                return (
-                <div
-                  key={voice.id}
-                  className={`p-4 rounded-lg cursor-pointer transition-colors ${
-                    selectedVoice === voice.id
-                      ? "bg-blue-600 border-2 border-blue-400"
-                      : "bg-gray-800 border border-gray-700 hover:bg-gray-700"
-                  }`}
+          ) : (
+            <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+              <div className="mb-4 flex flex-wrap justify-center gap-2">
+                <button
+                  onClick={() => setFilterCategory('all')}
+                  className={`px-3 py-1 rounded-md ${filterCategory === 'all' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
                 >
-                  <div 
-                    className="flex justify-between items-center"
-                    onClick={() => handleVoiceSelect(voice.id)}
+                  All Voices
+                </button>
+                {categories.map((category) => (
+                  <button
+                    key={category}
+                    onClick={() => setFilterCategory(category)}
+                    className={`px-3 py-1 rounded-md capitalize ${filterCategory === category ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
+                  >
+                    {getCategoryLabel(category)}
+                  </button>
+                ))}
+                {accents.length > 0 && (
+                  <select
+                    value={filterAccent}
+                    onChange={(e) => setFilterAccent(e.target.value)}
+                    className="px-3 py-1 bg-gray-700 text-gray-300 rounded-md capitalize"
                   >
-                    <div className="flex items-center">
-                      <h3 className="font-medium text-white">{voice.name}</h3>
-                      {isRecommended && (
-                        <span className="ml-2 bg-green-600 text-xs text-white px-2 py-1 rounded-full">
-                          Recommended
+                    <option value="all">Any accent</option>
+                    {accents.map((accent) => (
+                      <option key={accent} value={accent}>{accent}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              {voicesLoading && voices.length === 0 && (
+                <p className="text-center text-gray-400">Loading voices...</p>
+              )}
+            
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {filteredVoices.map((voice) => {
+                  const isRecommended = recommendedVoices.length > 0 && recommendedVoices[0]?.id === voice.id;
+                  return (
+                  <div
+                    key={voice.id}
+                    className={`p-4 rounded-lg cursor-pointer transition-colors ${
+                      selectedVoice === voice.id
+                        ? "bg-blue-600 border-2 border-blue-400"
+                        : "bg-gray-800 border border-gray-700 hover:bg-gray-700"
+                    }`}
+                  >
+                    <div 
+                      className="flex justify-between items-center"
+                      onClick={() => handleVoiceSelect(voice.id)}
+                    >
+                      <div className="flex items-center">
+                        <h3 className="font-medium text-white">{voice.name}</h3>
+                        {isRecommended && (
+                          <span className="ml-2 bg-green-600 text-xs text-white px-2 py-1 rounded-full">
+                            Recommended
+                          </span>
+                        )}
+                      </div>
+                      {voice.category !== 'premade' && (
+                        <span className="bg-yellow-600 text-xs text-white px-2 py-1 rounded-full capitalize">
+                          {getCategoryLabel(voice.category)}
                         </span>
                       )}
                     </div>
-                    {voice.category === 'premium' && (
-                      <span className="bg-yellow-600 text-xs text-white px-2 py-1 rounded-full">
-                        Premium
-                      </span>
-                    )}
-                  </div>
-                  <p className="text-sm text-gray-400 mt-1">{voice.description}</p>
-                  <div className="mt-2 flex flex-wrap gap-1">
-                    {voice.tags && voice.tags.map(tag => (
-                      <span key={tag} className="text-xs bg-gray-700 text-gray-300 px-2 py-1 rounded-full">
-                        {tag}
-                      </span>
-                    ))}
-                  </div>
-                  <div className="mt-3 flex justify-between items-center">
-                    <button
-                      onClick={() => generateVoicePreview(voice.id)}
-                      className="text-sm px-3 py-1 bg-indigo-700 text-white rounded hover:bg-indigo-600 transition-colors flex items-center"
-                      disabled={previewLoading === voice.id}
-                    >
-                      {previewLoading === voice.id ? (
-                        <><span className="mr-2">Loading...</span> <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div></>
-                      ) : previewData[voice.id] ? (
-                        previewPlayState[voice.id] ? (
-                          <><span className="mr-2">Pause</span> <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                          </svg></>
+                    <p className="text-sm text-gray-400 mt-1">{voice.description}</p>
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {voice.tags.map(tag => (
+                        <span key={tag} className="text-xs bg-gray-700 text-gray-300 px-2 py-1 rounded-full">
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="mt-3 flex justify-between items-center">
+                      <button
+                        onClick={() => generateVoicePreview(voice.id)}
+                        className="text-sm px-3 py-1 bg-indigo-700 text-white rounded hover:bg-indigo-600 transition-colors flex items-center"
+                        disabled={previewLoading === voice.id}
+                      >
+                        {previewLoading === voice.id ? (
+                          <><span className="mr-2">Loading...</span> <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div></>
+                        ) : previewData[voice.id] ? (
+                          previewPlayState[voice.id] ? (
+                            <><span className="mr-2">Pause</span> <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg></>
+                          ) : (
+                            <><span className="mr-2">Play</span> <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg></>
+                          )
                         ) : (
-                          <><span className="mr-2">Play</span> <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <><span className="mr-2">Preview</span> <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                           </svg></>
-                        )
-                      ) : (
-                        <><span className="mr-2">Preview</span> <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg></>
-                      )}
-                    </button>
-                    <button
-                      onClick={() => handleVoiceSelect(voice.id)}
-                      className={`text-sm px-3 py-1 ${selectedVoice === voice.id ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-300'} rounded hover:bg-opacity-80 transition-colors`}
-                    >
-                      {selectedVoice === voice.id ? "Selected" : "Select"}
-                    </button>
+                        )}
+                      </button>
+                      <button
+                        onClick={() => handleVoiceSelect(voice.id)}
+                        className={`text-sm px-3 py-1 ${selectedVoice === voice.id ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-300'} rounded hover:bg-opacity-80 transition-colors`}
+                      >
+                        {selectedVoice === voice.id ? "Selected" : "Select"}
+                      </button>
+                    </div>
                   </div>
-                </div>
-              )})}
+                )})}
+              </div>
             </div>
-          </div>
+          )}
+
+          {/* The local engine only follows the speed, its voices have no other settings */}
+          {!isLocal && <VoiceSettingsOptions settings={voiceSettings} onChange={onVoiceSettingsChange} />}
+
+          {userId && <PronunciationDictionary userId={userId} />}
 
           {audioData && (
             <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
@@ -889,7 +1178,9 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
                     {formatTime(currentTime)} <span className="text-gray-500">/</span> {formatTime(audioDuration)}
                   </div>
                   <div className="flex-1 text-gray-400 text-sm">
-                    Voiceover generated with {VOICES.find(v => v.id === selectedVoice)?.name || 'selected voice'}
+                    {isDialogue
+                      ? `Dialogue with ${speakers.length} voices`
+                      : `Voiceover generated with ${voices.find(v => v.id === selectedVoice)?.name || 'selected voice'}`}
                   </div>
                 </div>
                 
@@ -901,6 +1192,44 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
                     style={{ width: `${(currentTime / audioDuration) * 100 || 0}%` }}
                   ></div>
                 </div>
+
+                {isDialogue && dialogueLines.length > 0 && (
+                  <div className="max-h-48 overflow-y-auto space-y-1 pt-2">
+                    {dialogueLines.map((line, i) => (
+                      <div
+                        key={i}
+                        className={`text-sm ${currentTime >= line.start && currentTime < line.end ? 'text-white' : 'text-gray-400'}`}
+                      >
+                        <span className="text-gray-500 mr-2">{formatTime(line.start)}</span>
+                        <span className="font-medium mr-1">{line.speaker}:</span>
+                        {line.text}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {!isDialogue && clips.length > 0 && (
+                  <PacingOptions
+                    settings={pacing}
+                    onChange={setPacing}
+                    applied={JSON.stringify(pacing) === JSON.stringify(pacedWith)}
+                    busy={pacingBusy || renderingClip !== null}
+                    onApply={() => applyPacing(pacing)}
+                    onRemove={pacedWith ? () => applyPacing(null) : undefined}
+                  />
+                )}
+
+                {!isDialogue && clips.length > 0 && (
+                  <VoiceoverParagraphs
+                    clips={clips}
+                    timings={clipTimings}
+                    currentTime={currentTime}
+                    renderingIndex={renderingClip}
+                    disabled={pacingBusy}
+                    onPlay={playClip}
+                    onRender={renderClip}
+                  />
+                )}
               </div>
             </div>
           )}
@@ -913,11 +1242,11 @@ const VoiceoverGeneration: React.FC<VoiceoverGenerationProps> = ({
               Back
             </button>
             <button
-              onClick={() => selectedVoice && generateVoiceover()}
+              onClick={() => (isDialogue || selectedVoice) && generateVoiceover()}
               className="flex-1 py-2 px-4 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors"
-              disabled={!selectedVoice}
+              disabled={!isDialogue && !selectedVoice}
             >
-              Generate Voiceover
+              {isDialogue ? "Generate Dialogue" : "Generate Voiceover"}
             </button>
             <button
               onClick={handleContinue}
@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { TimedSpeechChunk } from "../lib/voiceover/chunks";
+import { VoiceoverClip } from "../lib/voiceover/clips";
+
+interface VoiceoverParagraphsProps {
+  clips: VoiceoverClip[];
+  timings: TimedSpeechChunk[]; // Where each clip sits in the stitched track
+  currentTime: number;
+  renderingIndex: number | null; // The clip being rendered again
+  disabled?: boolean; // While the whole track is being stitched
+  onPlay: (index: number) => void;
+  onRender: (index: number, text: string) => void;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+
+// The voiceover paragraph by paragraph, each one editable and renderable again on its own
+const VoiceoverParagraphs: React.FC<VoiceoverParagraphsProps> = ({
+  clips,
+  timings,
+  currentTime,
+  renderingIndex,
+  disabled = false,
+  onPlay,
+  onRender,
+}) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setDraft(clips[index].text);
+  };
+
+  const saveEdit = (index: number) => {
+    if (!draft.trim()) return;
+    setEditingIndex(null);
+    onRender(index, draft.trim());
+  };
+
+  return (
+    <div className="space-y-2 pt-2">
+      <div className="text-sm text-gray-400">
+        Paragraphs: edit or re-roll one to render it again with the current voice settings
+      </div>
+      <div className="max-h-96 overflow-y-auto space-y-2">
+        {clips.map((clip, i) => {
+          const timing = timings[i];
+          const playing = timing && currentTime >= timing.start && currentTime < timing.end;
+          const busy = disabled || renderingIndex !== null;
+
+          return (
+            <div
+              key={i}
+              className={`p-3 rounded-lg border ${playing ? "border-blue-500 bg-gray-800" : "border-gray-700 bg-gray-800/50"}`}
+            >
+              <div className="flex justify-between items-center mb-1">
+                <span className="text-xs text-gray-500">
+                  {timing && `${formatTime(timing.start)} - ${formatTime(timing.end)} `}
+                  ({(timing ? timing.end - timing.start : clip.duration).toFixed(1)}s)
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onPlay(i)}
+                    disabled={!timing}
+                    className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors disabled:opacity-50"
+                  >
+                    Play
+                  </button>
+                  {editingIndex === i ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => setEditingIndex(null)}
+                        className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => saveEdit(i)}
+                        disabled={busy || !draft.trim()}
+                        className="text-xs py-1 px-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        Save & Render
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => startEditing(i)}
+                        disabled={busy}
+                        className="text-xs py-1 px-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onRender(i, clip.text)}
+                        disabled={busy}
+                        className="text-xs py-1 px-2 bg-indigo-700 text-white rounded hover:bg-indigo-600 transition-colors disabled:opacity-50"
+                      >
+                        {renderingIndex === i ? "Rendering..." : "Re-roll"}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {editingIndex === i ? (
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  className="w-full h-24 bg-gray-900 text-white border border-gray-700 rounded-lg p-2 text-sm"
+                />
+              ) : (
+                <p className={`text-sm ${playing ? "text-white" : "text-gray-400"}`}>{clip.text}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VoiceoverParagraphs;
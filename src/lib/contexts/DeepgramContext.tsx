@@ -9,7 +9,8 @@ import {
   type LiveTranscriptionEvent,
 } from "@deepgram/sdk";
 
-import { createContext, useContext, useState, ReactNode, FunctionComponent, useRef } from "react";
+import { createContext, useContext, useState, ReactNode, FunctionComponent } from "react";
+import { useMicrophoneRecorder } from "../hooks/useMicrophoneRecorder";
 
 interface DeepgramContextType {
   connectToDeepgram: () => Promise<void>;
@@ -36,14 +37,13 @@ const DeepgramContextProvider: FunctionComponent<DeepgramContextProviderProps> =
   const [connectionState, setConnectionState] = useState<SOCKET_STATES>(SOCKET_STATES.closed);
   const [realtimeTranscript, setRealtimeTranscript] = useState("");
   const [error, setError] = useState<string | null>(null);
-  const audioRef = useRef<MediaRecorder | null>(null);
+  const microphone = useMicrophoneRecorder();
 
   const connectToDeepgram = async () => {
     try {
       setError(null);
       setRealtimeTranscript("");
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      audioRef.current = new MediaRecorder(stream);
+      await microphone.open();
 
       const apiKey = await getApiKey();
 
@@ -53,13 +53,17 @@ const DeepgramContextProvider: FunctionComponent<DeepgramContextProviderProps> =
       socket.onopen = () => {
         setConnectionState(SOCKET_STATES.open);
         console.log("WebSocket connection opened");
-        audioRef.current!.addEventListener("dataavailable", (event) => {
-          if (event.data.size > 0 && socket.readyState === WebSocket.OPEN) {
-            socket.send(event.data);
-          }
-        });
-
-        audioRef.current!.start(250);
+        microphone
+          .start(250, (data) => {
+            if (socket.readyState === WebSocket.OPEN) {
+              socket.send(data);
+            }
+          })
+          .catch((error) => {
+            console.error("Error starting the microphone:", error);
+            setError(error instanceof Error ? error.message : "Could not access the microphone");
+            socket.close();
+          });
       };
 
       socket.onmessage = (event) => {
@@ -86,6 +90,7 @@ const DeepgramContextProvider: FunctionComponent<DeepgramContextProviderProps> =
       console.error("Error starting voice recognition:", error);
       setError(error instanceof Error ? error.message : "An unknown error occurred");
       setConnectionState(SOCKET_STATES.closed);
+      microphone.stop();
     }
   };
 
@@ -94,9 +99,7 @@ const DeepgramContextProvider: FunctionComponent<DeepgramContextProviderProps> =
       connection.close();
       setConnection(null);
     }
-    if (audioRef.current) {
-      audioRef.current.stop();
-    }
+    microphone.stop();
     setRealtimeTranscript("");
     setConnectionState(SOCKET_STATES.closed);
   };
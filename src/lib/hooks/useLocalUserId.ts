@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+
+const STORAGE_KEY = "ai-video-creator-user-id";
+
+// An anonymous ID for this browser, kept in localStorage, that per-user data such as voice
+// clones is stored under. Null until the component has mounted.
+export const useLocalUserId = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let id = localStorage.getItem(STORAGE_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(STORAGE_KEY, id);
+    }
+    setUserId(id);
+  }, []);
+
+  return userId;
+};
@@ -0,0 +1,67 @@
+import { useRef, useState } from "react";
+
+// Microphone capture with MediaRecorder. Recorded data is either handed to onData as it
+// arrives (for streaming) or, without onData, collected into one Blob when recording stops.
+export const useMicrophoneRecorder = () => {
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const [recording, setRecording] = useState(false);
+
+  // Ask for the microphone ahead of recording, so permission is settled before anything that
+  // depends on it is set up. start() opens it itself when it isn't open yet.
+  const open = async () => {
+    if (!streamRef.current) {
+      streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+    }
+  };
+
+  const start = async (timeslice?: number, onData?: (data: Blob) => void) => {
+    await open();
+    const recorder = new MediaRecorder(streamRef.current!);
+    streamRef.current = null;
+
+    chunksRef.current = [];
+    recorder.addEventListener("dataavailable", (event) => {
+      if (event.data.size === 0) return;
+      if (onData) {
+        onData(event.data);
+      } else {
+        chunksRef.current.push(event.data);
+      }
+    });
+
+    recorder.start(timeslice);
+    recorderRef.current = recorder;
+    setRecording(true);
+  };
+
+  // Stop recording and release the microphone, resolving with everything recorded, or null
+  // when nothing was recorded or it was all streamed
+  const stop = () =>
+    new Promise<Blob | null>((resolve) => {
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      setRecording(false);
+
+      // Opened but never recorded from
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+
+      if (!recorder || recorder.state === "inactive") {
+        resolve(null);
+        return;
+      }
+
+      recorder.addEventListener("stop", () => {
+        recorder.stream.getTracks().forEach((track) => track.stop());
+        resolve(chunksRef.current.length > 0
+          ? new Blob(chunksRef.current, { type: recorder.mimeType || "audio/webm" })
+          : null);
+        chunksRef.current = [];
+      }, { once: true });
+      recorder.stop();
+    });
+
+  return { recording, open, start, stop };
+};
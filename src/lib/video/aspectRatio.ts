@@ -0,0 +1,48 @@
+// Output formats offered in VideoIdeaForm and used for prompts, image generation and rendering
+
+export type AspectRatio = "16:9" | "9:16" | "1:1";
+
+export interface AspectRatioFormat {
+  label: string;
+  description: string;
+  width: number; // Rendered video width
+  height: number; // Rendered video height
+  promptSuffix: string; // Appended to every image prompt
+  negativePrompt: string; // Orientation terms to keep out of generated images
+}
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = "16:9";
+
+export const ASPECT_RATIOS: Record<AspectRatio, AspectRatioFormat> = {
+  "16:9": {
+    label: "Landscape (16:9)",
+    description: "YouTube and desktop players, 1920x1080",
+    width: 1920,
+    height: 1080,
+    promptSuffix: "16:9 aspect ratio, landscape orientation",
+    negativePrompt: "square format, portrait orientation, vertical, vertical format, vertical orientation",
+  },
+  "9:16": {
+    label: "Vertical (9:16)",
+    description: "Shorts, Reels and TikTok, 1080x1920",
+    width: 1080,
+    height: 1920,
+    promptSuffix: "9:16 aspect ratio, vertical portrait orientation",
+    negativePrompt: "square format, landscape orientation, horizontal, widescreen, horizontal format",
+  },
+  "1:1": {
+    label: "Square (1:1)",
+    description: "Instagram and Facebook feeds, 1080x1080",
+    width: 1080,
+    height: 1080,
+    promptSuffix: "1:1 aspect ratio, square format",
+    negativePrompt: "landscape orientation, portrait orientation, widescreen, vertical format",
+  },
+};
+
+// Validate an aspect ratio coming from the client, falling back to landscape
+export function normalizeAspectRatio(input: any): AspectRatio {
+  return typeof input === "string" && Object.prototype.hasOwnProperty.call(ASPECT_RATIOS, input)
+    ? (input as AspectRatio)
+    : DEFAULT_ASPECT_RATIO;
+}
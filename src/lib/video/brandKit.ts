@@ -0,0 +1,88 @@
+// Brand kits: a logo watermark, caption/title font and colours applied to every render.
+// Kits are stored by the /api/brand-kits routes; this module is shared with the client.
+
+import { colorOr, numberOr, optionOr, toFields } from "./normalize";
+
+export type WatermarkPosition = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  logoUrl: string | null; // Public URL of the uploaded logo
+  fontUrl: string | null; // Public URL of the uploaded font file
+  fontFamily: string | null; // Family name read from the font file, used by the captions
+  primaryColor: string; // #RRGGBB, caption highlight and title card background
+  secondaryColor: string; // #RRGGBB, title card text
+  watermarkPosition: WatermarkPosition;
+  watermarkOpacity: number; // 0-1
+  createdAt: number;
+}
+
+// Fields of a kit the client can set; the logo and font are uploaded alongside as data URLs
+export type BrandKitSettings = Pick<
+  BrandKit,
+  "name" | "primaryColor" | "secondaryColor" | "watermarkPosition" | "watermarkOpacity"
+>;
+
+export const DEFAULT_BRAND_KIT_SETTINGS: BrandKitSettings = {
+  name: "My brand",
+  primaryColor: "#2563EB",
+  secondaryColor: "#FFFFFF",
+  watermarkPosition: "bottom-right",
+  watermarkOpacity: 0.8,
+};
+
+export const WATERMARK_POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: "top-left", label: "Top left" },
+  { value: "top-right", label: "Top right" },
+  { value: "bottom-left", label: "Bottom left" },
+  { value: "bottom-right", label: "Bottom right" },
+];
+
+// Logo width as a fraction of the video width, and its distance from the edges
+const WATERMARK_WIDTH = 0.12;
+const WATERMARK_MARGIN = 0.03;
+
+// Validate brand kit settings coming from the client, falling back to defaults
+export function normalizeBrandKitSettings(input: unknown): BrandKitSettings {
+  const fields = toFields(input);
+
+  return {
+    name: typeof fields.name === "string" && fields.name.trim()
+      ? fields.name.trim().slice(0, 80)
+      : DEFAULT_BRAND_KIT_SETTINGS.name,
+    primaryColor: colorOr(fields.primaryColor, DEFAULT_BRAND_KIT_SETTINGS.primaryColor),
+    secondaryColor: colorOr(fields.secondaryColor, DEFAULT_BRAND_KIT_SETTINGS.secondaryColor),
+    watermarkPosition: optionOr(WATERMARK_POSITIONS, fields.watermarkPosition, DEFAULT_BRAND_KIT_SETTINGS.watermarkPosition),
+    watermarkOpacity: numberOr(fields.watermarkOpacity, DEFAULT_BRAND_KIT_SETTINGS.watermarkOpacity, 0.1, 1),
+  };
+}
+
+export interface WatermarkGraphOptions {
+  videoLabel: string; // Label of the video to watermark
+  logoInput: number; // FFmpeg input index of the logo
+  position: WatermarkPosition;
+  opacity: number;
+  width: number; // Video width
+  label: string; // Output label
+}
+
+// Overlay the logo in a corner of the video, scaled to the video width and faded to the opacity
+export function buildWatermarkFilter({
+  videoLabel,
+  logoInput,
+  position,
+  opacity,
+  width,
+  label,
+}: WatermarkGraphOptions): string {
+  const logoWidth = Math.round(width * WATERMARK_WIDTH);
+  const margin = Math.round(width * WATERMARK_MARGIN);
+  const x = position.endsWith("left") ? `${margin}` : `main_w-overlay_w-${margin}`;
+  const y = position.startsWith("top") ? `${margin}` : `main_h-overlay_h-${margin}`;
+
+  return [
+    `[${logoInput}:v]scale=${logoWidth}:-1,format=rgba,colorchannelmixer=aa=${opacity}[watermark]`,
+    `[${videoLabel}][watermark]overlay=x=${x}:y=${y}:format=auto,format=yuv420p[${label}]`,
+  ].join(";\n");
+}
@@ -0,0 +1,204 @@
+// Server-side storage of brand kits. Each kit is a directory under public/brand-kits
+// holding kit.json plus its logo and font, so the files can be previewed and rendered.
+
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+import { BrandKit, BrandKitSettings } from "./brandKit";
+
+const BRAND_KITS_DIR = path.join(process.cwd(), "public", "brand-kits");
+const KIT_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+const LOGO_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+const FONT_EXTENSIONS = ["ttf", "otf"];
+
+export interface BrandKitUpload {
+  logo?: string | null; // Data URL, null removes the logo, undefined keeps it
+  font?: { fileName: string; data: string } | null; // Base64 file contents
+}
+
+// Local paths of a kit's files for FFmpeg
+export interface BrandKitFiles {
+  logoPath: string | null;
+  fontPath: string | null;
+  fontDir: string | null;
+}
+
+function kitDir(id: string) {
+  if (!KIT_ID_PATTERN.test(id)) {
+    throw new Error("Invalid brand kit ID");
+  }
+  return path.join(BRAND_KITS_DIR, id);
+}
+
+function toLocalPath(publicUrl: string) {
+  return path.join(process.cwd(), "public", ...publicUrl.split("/").filter(Boolean));
+}
+
+// Family name from the font's name table (TrueType/OpenType), used as the ASS Fontname
+export function readFontFamily(font: Buffer): string | null {
+  try {
+    const numTables = font.readUInt16BE(4);
+    for (let i = 0; i < numTables; i++) {
+      const record = 12 + i * 16;
+      if (font.toString("latin1", record, record + 4) !== "name") continue;
+
+      const table = font.readUInt32BE(record + 8);
+      const count = font.readUInt16BE(table + 2);
+      const stringOffset = table + font.readUInt16BE(table + 4);
+      let fallback: string | null = null;
+
+      for (let j = 0; j < count; j++) {
+        const entry = table + 6 + j * 12;
+        const platformId = font.readUInt16BE(entry);
+        const nameId = font.readUInt16BE(entry + 6);
+        if (nameId !== 1) continue;
+
+        const length = font.readUInt16BE(entry + 8);
+        const start = stringOffset + font.readUInt16BE(entry + 10);
+        const bytes = font.subarray(start, start + length);
+
+        if (platformId === 3 || platformId === 0) {
+          // UTF-16BE, swap to little-endian for Node's decoder
+          const swapped = Buffer.from(bytes);
+          swapped.swap16();
+          return swapped.toString("utf16le");
+        }
+        if (platformId === 1 && !fallback) {
+          fallback = bytes.toString("latin1");
+        }
+      }
+      return fallback;
+    }
+  } catch (error) {
+    console.error("Error reading font family:", error);
+  }
+  return null;
+}
+
+export async function listBrandKits(): Promise<BrandKit[]> {
+  let ids: string[];
+  try {
+    ids = await fs.readdir(BRAND_KITS_DIR);
+  } catch (error) {
+    return [];
+  }
+
+  const kits = await Promise.all(ids.filter(id => KIT_ID_PATTERN.test(id)).map(getBrandKit));
+  return kits
+    .filter((kit): kit is BrandKit => kit !== null)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getBrandKit(id: string): Promise<BrandKit | null> {
+  if (!KIT_ID_PATTERN.test(id)) return null;
+
+  try {
+    return JSON.parse(await fs.readFile(path.join(kitDir(id), "kit.json"), "utf8"));
+  } catch (error) {
+    return null;
+  }
+}
+
+// Create a kit, or update it when an ID is given, writing any uploaded files
+export async function saveBrandKit(
+  id: string | null,
+  settings: BrandKitSettings,
+  { logo, font }: BrandKitUpload
+): Promise<BrandKit> {
+  const existing = id ? await getBrandKit(id) : null;
+  if (id && !existing) {
+    throw new Error("Brand kit not found");
+  }
+
+  // Check the uploads before touching any files, so a rejected one leaves the kit as it was
+  let logoFile: { extension: string; data: Buffer } | null = null;
+  if (logo) {
+    const match = logo.match(/^data:(image\/[\w+.-]+);base64,(.*)$/);
+    const extension = match && LOGO_EXTENSIONS[match[1]];
+    if (!match || !extension) {
+      throw new Error("The logo must be a PNG, JPEG or WebP image");
+    }
+    logoFile = { extension, data: Buffer.from(match[2], "base64") };
+  }
+
+  let fontFile: { extension: string; data: Buffer } | null = null;
+  if (font) {
+    const extension = path.extname(font.fileName).slice(1).toLowerCase();
+    if (!FONT_EXTENSIONS.includes(extension)) {
+      throw new Error("The font must be a .ttf or .otf file");
+    }
+    fontFile = { extension, data: Buffer.from(font.data.replace(/^data:[^;]*;base64,/, ""), "base64") };
+  }
+
+  const kitId = existing?.id ?? crypto.randomUUID();
+  const dir = kitDir(kitId);
+
+  const kit: BrandKit = {
+    logoUrl: null,
+    fontUrl: null,
+    fontFamily: null,
+    ...existing,
+    ...settings,
+    id: kitId,
+    createdAt: existing?.createdAt ?? Date.now(),
+  };
+
+  try {
+    await fs.mkdir(dir, { recursive: true });
+
+    if (logo !== undefined) {
+      kit.logoUrl = null;
+      if (logoFile) {
+        await fs.writeFile(path.join(dir, `logo.${logoFile.extension}`), logoFile.data);
+        kit.logoUrl = `/brand-kits/${kitId}/logo.${logoFile.extension}`;
+      }
+    }
+
+    if (font !== undefined) {
+      kit.fontUrl = null;
+      kit.fontFamily = null;
+      if (fontFile) {
+        await fs.mkdir(path.join(dir, "fonts"), { recursive: true });
+        await fs.writeFile(path.join(dir, "fonts", `font.${fontFile.extension}`), fontFile.data);
+        kit.fontUrl = `/brand-kits/${kitId}/fonts/font.${fontFile.extension}`;
+        kit.fontFamily = readFontFamily(fontFile.data);
+      }
+    }
+
+    await fs.writeFile(path.join(dir, "kit.json"), JSON.stringify(kit, null, 2));
+  } catch (error) {
+    // A new kit that couldn't be saved leaves no directory behind
+    if (!existing) await fs.rm(dir, { recursive: true, force: true });
+    throw error;
+  }
+
+  // Only now that the kit points at its new files are the replaced ones removed
+  const replaced = [existing?.logoUrl, existing?.fontUrl].filter(
+    (url): url is string => !!url && url !== kit.logoUrl && url !== kit.fontUrl
+  );
+  for (const url of replaced) {
+    await fs.rm(toLocalPath(url), { force: true });
+  }
+
+  return kit;
+}
+
+export async function deleteBrandKit(id: string): Promise<boolean> {
+  if (!(await getBrandKit(id))) return false;
+  await fs.rm(kitDir(id), { recursive: true, force: true });
+  return true;
+}
+
+export function getBrandKitFiles(kit: BrandKit): BrandKitFiles {
+  const fontPath = kit.fontUrl ? toLocalPath(kit.fontUrl) : null;
+  return {
+    logoPath: kit.logoUrl ? toLocalPath(kit.logoUrl) : null,
+    fontPath,
+    fontDir: fontPath ? path.dirname(fontPath) : null,
+  };
+}
@@ -0,0 +1,169 @@
+// Burned-in caption settings and ASS subtitle generation for the /api/video/generate route
+
+import { WordTiming } from "../voiceover/alignment";
+import { colorOr, integerOr, optionOr, toFields } from "./normalize";
+
+export type CaptionMode = "word" | "phrase";
+export type CaptionPosition = "top" | "middle" | "bottom";
+
+export interface CaptionSettings {
+  enabled: boolean;
+  mode: CaptionMode; // "word" highlights each word as it is spoken, "phrase" shows whole lines
+  font: string;
+  fontSize: number; // Pixels at the output resolution
+  position: CaptionPosition;
+  textColor: string; // #RRGGBB
+  highlightColor: string; // #RRGGBB
+  maxWordsPerLine: number;
+}
+
+export const DEFAULT_CAPTIONS: CaptionSettings = {
+  enabled: false,
+  mode: "word",
+  font: "Arial",
+  fontSize: 64,
+  position: "bottom",
+  textColor: "#FFFFFF",
+  highlightColor: "#FFD700",
+  maxWordsPerLine: 4,
+};
+
+export const CAPTION_FONTS = ["Arial", "Helvetica", "Impact", "Verdana", "Georgia", "Montserrat", "Roboto"];
+
+export const CAPTION_POSITIONS: { value: CaptionPosition; label: string }[] = [
+  { value: "top", label: "Top" },
+  { value: "middle", label: "Middle" },
+  { value: "bottom", label: "Bottom" },
+];
+
+// Validate caption settings coming from the client, falling back to defaults
+export function normalizeCaptions(input: unknown): CaptionSettings {
+  const fields = toFields(input);
+
+  return {
+    enabled: fields.enabled === true,
+    mode: fields.mode === "phrase" ? "phrase" : "word",
+    font: typeof fields.font === "string" && CAPTION_FONTS.includes(fields.font) ? fields.font : DEFAULT_CAPTIONS.font,
+    fontSize: integerOr(fields.fontSize, DEFAULT_CAPTIONS.fontSize, 24, 160),
+    position: optionOr(CAPTION_POSITIONS, fields.position, DEFAULT_CAPTIONS.position),
+    textColor: colorOr(fields.textColor, DEFAULT_CAPTIONS.textColor),
+    highlightColor: colorOr(fields.highlightColor, DEFAULT_CAPTIONS.highlightColor),
+    maxWordsPerLine: integerOr(fields.maxWordsPerLine, DEFAULT_CAPTIONS.maxWordsPerLine, 1, 10),
+  };
+}
+
+// Group words into caption lines, breaking at the word limit and at sentence ends
+export function groupCaptionLines(words: WordTiming[], maxWordsPerLine: number): WordTiming[][] {
+  const lines: WordTiming[][] = [];
+  let current: WordTiming[] = [];
+
+  for (const word of words) {
+    current.push(word);
+    if (current.length >= maxWordsPerLine || /[.!?]$/.test(word.word)) {
+      lines.push(current);
+      current = [];
+    }
+  }
+
+  if (current.length > 0) {
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+// ASS colours are &HAABBGGRR
+function toAssColor(hex: string): string {
+  const rr = hex.slice(1, 3);
+  const gg = hex.slice(3, 5);
+  const bb = hex.slice(5, 7);
+  return `&H00${bb}${gg}${rr}`.toUpperCase();
+}
+
+// ASS timestamps are H:MM:SS.cc
+function toAssTime(seconds: number): string {
+  const centiseconds = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const secs = Math.floor((centiseconds % 6000) / 100);
+  const cs = centiseconds % 100;
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(cs)}`;
+}
+
+// Braces and backslashes start override tags in ASS, so keep them out of caption text
+function escapeAssText(text: string): string {
+  return text.replace(/[{}]/g, "").replace(/\\/g, "/");
+}
+
+// Commas would shift the Style line's fields and line breaks start new lines, so they are
+// dropped from the font name (a brand kit's comes from its uploaded font file)
+function escapeAssFontName(font: string): string {
+  return font.replace(/[,\r\n]/g, "").trim() || DEFAULT_CAPTIONS.font;
+}
+
+// Build an ASS subtitle file for the caption lines at the given output resolution
+export function buildAssSubtitles(
+  words: WordTiming[],
+  settings: CaptionSettings,
+  width: number,
+  height: number
+): string {
+  const alignment = settings.position === "top" ? 8 : settings.position === "middle" ? 5 : 2;
+  const marginV = settings.position === "middle" ? 0 : Math.round(height * 0.08);
+  const outline = Math.max(2, Math.round(settings.fontSize / 16));
+  const textColor = toAssColor(settings.textColor);
+  const highlightColor = toAssColor(settings.highlightColor);
+  const font = escapeAssFontName(settings.font);
+
+  const header = [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    `Style: Caption,${font},${settings.fontSize},${textColor},${highlightColor},&H00000000,&H80000000,-1,0,0,0,100,100,0,0,1,${outline},1,${alignment},${Math.round(width * 0.06)},${Math.round(width * 0.06)},${marginV},1`,
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+  ];
+
+  const events: string[] = [];
+  const lines = groupCaptionLines(words, settings.maxWordsPerLine);
+
+  lines.forEach((line, lineIndex) => {
+    // Keep each line up until the next one starts, unless there's a long pause
+    const nextLineStart = lineIndex < lines.length - 1 ? lines[lineIndex + 1][0].start : Infinity;
+    const lineEnd = Math.min(nextLineStart, line[line.length - 1].end + 0.5);
+
+    if (settings.mode === "phrase") {
+      const text = line.map(word => escapeAssText(word.word)).join(" ");
+      events.push(`Dialogue: 0,${toAssTime(line[0].start)},${toAssTime(lineEnd)},Caption,,0,0,0,,${text}`);
+      return;
+    }
+
+    // One event per word, with the whole line on screen and the spoken word highlighted
+    line.forEach((activeWord, wordIndex) => {
+      const start = wordIndex === 0 ? line[0].start : activeWord.start;
+      const end = wordIndex < line.length - 1 ? line[wordIndex + 1].start : lineEnd;
+      const text = line
+        .map((word, i) => i === wordIndex
+          ? `{\\1c${highlightColor}&}${escapeAssText(word.word)}{\\r}`
+          : escapeAssText(word.word))
+        .join(" ");
+      events.push(`Dialogue: 0,${toAssTime(start)},${toAssTime(end)},Caption,,0,0,0,,${text}`);
+    });
+  });
+
+  return [...header, ...events].join("\n") + "\n";
+}
+
+// Quote a file path for use as a filter option inside a filtergraph. The quotes protect
+// spaces and separators from the graph parser, the backslash protects ':' from the option parser.
+export function escapeFilterPath(filePath: string): string {
+  return `'${filePath.replace(/\\/g, "/").replace(/:/g, "\\:")}'`;
+}
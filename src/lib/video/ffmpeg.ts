@@ -0,0 +1,371 @@
+// FFmpeg and ffprobe invocation. Commands are built as argument arrays and run without a
+// shell, so paths with spaces need no quoting. The build* functions are pure and only
+// produce arguments; the run and helper functions execute them.
+
+import { spawn } from "child_process";
+import path from "path";
+import { MusicMixSettings, buildMusicMixFilter } from "./musicMix";
+import {
+  LoudnessMeasurement,
+  LoudnessReport,
+  LoudnessTarget,
+  buildLoudnormFilter,
+  parseLoudnessMeasurement,
+  parseLoudnessReport,
+} from "./loudness";
+import { ImageStats, parseImageStats } from "./thumbnails";
+import { buildAudioConcatFilter } from "../voiceover/chunks";
+
+export interface FfmpegProgress {
+  frame: number;
+  encodedSeconds: number;
+  percent: number; // 0-100 of totalSeconds
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  label?: string; // Prefix for the logged stderr lines
+}
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+}
+
+export interface MixAudioOptions {
+  voiceoverPath: string;
+  musicPath: string;
+  voiceoverDuration: number; // Seconds, for the music fade-out
+  mix: MusicMixSettings;
+  outputPath: string;
+}
+
+export interface RenderVideoOptions {
+  imagePaths: string[]; // One input per image
+  audioPath: string;
+  filtergraphPath: string;
+  videoLabel: string; // Output label of the filtergraph to encode
+  audioLabel?: string; // Audio output label of the filtergraph, otherwise the audio input as is
+  fps: number;
+  outputPath: string;
+}
+
+export function getFfmpegPath(): string {
+  return process.env.FFMPEG_PATH || "ffmpeg";
+}
+
+// ffprobe from FFPROBE_PATH, otherwise next to a configured FFmpeg binary
+export function getFfprobePath(): string {
+  if (process.env.FFPROBE_PATH) return process.env.FFPROBE_PATH;
+
+  const ffmpegPath = process.env.FFMPEG_PATH;
+  if (!ffmpegPath) return "ffprobe";
+
+  const name = path.basename(ffmpegPath).replace(/^ffmpeg/, "ffprobe");
+  return path.join(path.dirname(ffmpegPath), name === path.basename(ffmpegPath) ? "ffprobe" : name);
+}
+
+export function buildProbeDurationArgs(filePath: string): string[] {
+  return ["-v", "error", "-show_entries", "format=duration", "-of", "default=noprint_wrappers=1:nokey=1", filePath];
+}
+
+export function buildProbeVideoSizeArgs(filePath: string): string[] {
+  return ["-v", "error", "-select_streams", "v:0", "-show_entries", "stream=width,height", "-of", "csv=s=x:p=0", filePath];
+}
+
+// Background music under the voiceover, at a fixed bed level or ducked beneath the narration
+export function buildMixAudioArgs({ voiceoverPath, musicPath, voiceoverDuration, mix, outputPath }: MixAudioOptions): string[] {
+  return [
+    "-y",
+    "-i", voiceoverPath,
+    "-i", musicPath,
+    "-filter_complex", buildMusicMixFilter(mix, voiceoverDuration),
+    "-c:a", "libmp3lame",
+    outputPath,
+  ];
+}
+
+// Speech recordings (dialogue lines, long script chunks) joined into one MP3 with a gap between them
+export function buildJoinAudioArgs(inputPaths: string[], gap: number, outputPath: string): string[] {
+  return [
+    "-y",
+    ...inputPaths.flatMap(inputPath => ["-i", inputPath]),
+    "-filter_complex", buildAudioConcatFilter(inputPaths.length, gap),
+    "-map", "[aout]",
+    "-c:a", "libmp3lame",
+    "-b:a", "128k",
+    outputPath,
+  ];
+}
+
+// An audio filter chain run over one recording, written as a mono 44.1 kHz WAV so it can be
+// filtered again or joined without another lossy encode
+export function buildFilterAudioArgs(inputPath: string, filter: string, outputPath: string): string[] {
+  return [
+    "-y",
+    "-i", inputPath,
+    "-vn",
+    "-af", filter,
+    "-ac", "1",
+    "-ar", "44100",
+    "-c:a", "pcm_s16le",
+    outputPath,
+  ];
+}
+
+// Any recording (a browser's WebM/Opus, M4A, WAV) as a mono 44.1 kHz MP3, e.g. a voice clone sample
+export function buildTranscodeAudioArgs(inputPath: string, outputPath: string): string[] {
+  return [
+    "-y",
+    "-i", inputPath,
+    "-vn",
+    "-ac", "1",
+    "-ar", "44100",
+    "-c:a", "libmp3lame",
+    "-b:a", "192k",
+    outputPath,
+  ];
+}
+
+// First loudnorm pass, analyses the audio and writes nothing
+export function buildMeasureLoudnessArgs(inputPath: string, target: LoudnessTarget): string[] {
+  return ["-i", inputPath, "-af", buildLoudnormFilter(target), "-f", "null", "-"];
+}
+
+// Second loudnorm pass, normalises with the first pass's measurement. loudnorm
+// upsamples internally, so set the output rate back to 48 kHz.
+export function buildNormalizeLoudnessArgs(
+  inputPath: string,
+  target: LoudnessTarget,
+  measured: LoudnessMeasurement,
+  outputPath: string
+): string[] {
+  return [
+    "-y",
+    "-i", inputPath,
+    "-af", buildLoudnormFilter(target, measured),
+    "-ar", "48000",
+    "-c:a", "pcm_s16le",
+    outputPath,
+  ];
+}
+
+// Encode the slideshow filtergraph with the audio, every image is its own input
+export function buildRenderVideoArgs({ imagePaths, audioPath, filtergraphPath, videoLabel, audioLabel, fps, outputPath }: RenderVideoOptions): string[] {
+  return [
+    "-y",
+    ...imagePaths.flatMap(imagePath => ["-i", imagePath]),
+    "-i", audioPath,
+    "-filter_complex_script", filtergraphPath,
+    "-map", `[${videoLabel}]`,
+    "-map", audioLabel ? `[${audioLabel}]` : `${imagePaths.length}:a`,
+    "-c:v", "libx264",
+    "-pix_fmt", "yuv420p",
+    "-preset", "fast",
+    "-r", String(fps),
+    "-c:a", "aac",
+    "-b:a", "192k",
+    "-shortest",
+    outputPath,
+  ];
+}
+
+// Contrast and saturation statistics of a still image, printed to stderr
+export function buildImageStatsArgs(imagePath: string): string[] {
+  return ["-i", imagePath, "-vf", "signalstats,metadata=mode=print", "-frames:v", "1", "-f", "null", "-"];
+}
+
+// A single JPEG frame from an image and a thumbnail filter
+export function buildThumbnailArgs(imagePath: string, filter: string, outputPath: string): string[] {
+  return ["-y", "-i", imagePath, "-vf", filter, "-frames:v", "1", "-q:v", "2", outputPath];
+}
+
+// Parse one block of -progress output, key=value lines ending with progress=continue|end
+export function parseProgressBlock(block: string, totalSeconds: number): FfmpegProgress | null {
+  const values: Record<string, string> = {};
+  block.split("\n").forEach(line => {
+    const separator = line.indexOf("=");
+    if (separator > 0) {
+      values[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  });
+
+  // out_time_ms is in microseconds despite its name, and both are "N/A" before the first frame
+  const outTimeUs = parseInt(values.out_time_us ?? values.out_time_ms, 10);
+  const frame = parseInt(values.frame, 10);
+  if (isNaN(outTimeUs) && isNaN(frame)) return null;
+
+  const encodedSeconds = isNaN(outTimeUs) ? 0 : Math.max(0, outTimeUs / 1000000);
+  const percent = values.progress === "end"
+    ? 100
+    : totalSeconds > 0 ? Math.min(99, (encodedSeconds / totalSeconds) * 100) : 0;
+
+  return {
+    frame: isNaN(frame) ? 0 : frame,
+    encodedSeconds,
+    percent: Math.round(percent * 10) / 10,
+  };
+}
+
+// Split a stream into lines as data arrives
+function onLines(stream: NodeJS.ReadableStream, onLine: (line: string) => void) {
+  let partialLine = "";
+  stream.on("data", (data: Buffer) => {
+    const lines = (partialLine + data.toString()).split(/\r?\n|\r/);
+    partialLine = lines.pop() ?? "";
+    lines.forEach(onLine);
+  });
+  stream.on("end", () => {
+    if (partialLine) onLine(partialLine);
+  });
+}
+
+// Run a binary with the given arguments, logging its stderr as it goes. Resolves with
+// its output; rejects on a non-zero exit (with the last stderr lines) or when the signal aborts.
+function run(
+  command: string,
+  args: string[],
+  { signal, label = path.basename(command) }: RunOptions,
+  onStdoutLine?: (line: string) => void
+): Promise<RunResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(`${label} was cancelled`));
+      return;
+    }
+
+    console.log(`Running ${command} ${args.join(" ")}`);
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+
+    let stdout = "";
+    let stderr = "";
+    const stderrTail: string[] = [];
+
+    const kill = () => child.kill("SIGKILL");
+    signal?.addEventListener("abort", kill, { once: true });
+
+    onLines(child.stdout, line => {
+      stdout += line + "\n";
+      onStdoutLine?.(line);
+    });
+
+    onLines(child.stderr, line => {
+      stderr += line + "\n";
+      if (!line.trim()) return;
+      console.log(`[${label}] ${line}`);
+      stderrTail.push(line);
+      if (stderrTail.length > 5) stderrTail.shift();
+    });
+
+    child.on("error", error => {
+      signal?.removeEventListener("abort", kill);
+      reject(error);
+    });
+
+    child.on("close", code => {
+      signal?.removeEventListener("abort", kill);
+      if (signal?.aborted) {
+        reject(new Error(`${label} was cancelled`));
+      } else if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        reject(new Error(`${label} exited with code ${code}: ${stderrTail.join("\n")}`));
+      }
+    });
+  });
+}
+
+// Any other binary, e.g. a local text-to-speech engine
+export function runCommand(command: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+  return run(command, args, options);
+}
+
+export function runFfmpeg(args: string[], options: RunOptions = {}): Promise<RunResult> {
+  return run(getFfmpegPath(), ["-hide_banner", ...args], { label: "ffmpeg", ...options });
+}
+
+export function runFfprobe(args: string[], options: RunOptions = {}): Promise<RunResult> {
+  return run(getFfprobePath(), args, { label: "ffprobe", ...options });
+}
+
+// Run FFmpeg with machine-readable progress on stdout, calling onProgress as frames are encoded
+export function runFfmpegWithProgress(
+  args: string[],
+  totalSeconds: number,
+  onProgress: (progress: FfmpegProgress) => void,
+  options: RunOptions = {}
+): Promise<RunResult> {
+  let block = "";
+
+  return run(getFfmpegPath(), ["-hide_banner", "-progress", "pipe:1", "-nostats", ...args], { label: "ffmpeg", ...options }, line => {
+    block += line + "\n";
+    if (line.startsWith("progress=")) {
+      const progress = parseProgressBlock(block, totalSeconds);
+      if (progress) onProgress(progress);
+      block = "";
+    }
+  });
+}
+
+// Duration of a media file in seconds
+export async function probeDuration(filePath: string, options: RunOptions = {}): Promise<number> {
+  const { stdout } = await runFfprobe(buildProbeDurationArgs(filePath), options);
+  return parseFloat(stdout.trim());
+}
+
+// Width and height of a video's first stream, as "WxH"
+export async function probeVideoSize(filePath: string, options: RunOptions = {}): Promise<string> {
+  const { stdout } = await runFfprobe(buildProbeVideoSizeArgs(filePath), options);
+  return stdout.trim();
+}
+
+export function mixAudio(mix: MixAudioOptions, options: RunOptions = {}): Promise<RunResult> {
+  return runFfmpeg(buildMixAudioArgs(mix), options);
+}
+
+export function joinAudio(inputPaths: string[], gap: number, outputPath: string, options: RunOptions = {}): Promise<RunResult> {
+  return runFfmpeg(buildJoinAudioArgs(inputPaths, gap, outputPath), options);
+}
+
+export function filterAudio(inputPath: string, filter: string, outputPath: string, options: RunOptions = {}): Promise<RunResult> {
+  return runFfmpeg(buildFilterAudioArgs(inputPath, filter, outputPath), options);
+}
+
+export function transcodeAudio(inputPath: string, outputPath: string, options: RunOptions = {}): Promise<RunResult> {
+  return runFfmpeg(buildTranscodeAudioArgs(inputPath, outputPath), options);
+}
+
+// Two-pass loudnorm of an audio file to the target, returning the loudness of the result.
+// Audio too quiet to measure is left as it is, resolving with null and writing nothing.
+export async function normalizeLoudness(
+  inputPath: string,
+  target: LoudnessTarget,
+  outputPath: string,
+  options: RunOptions = {}
+): Promise<LoudnessReport | null> {
+  const measurePass = await runFfmpeg(buildMeasureLoudnessArgs(inputPath, target), options);
+  const measured = parseLoudnessMeasurement(measurePass.stderr);
+  if (!measured) return null;
+  console.log(`Measured ${measured.integrated} LUFS integrated, ${measured.truePeak} dBTP true peak`);
+
+  const normalizePass = await runFfmpeg(buildNormalizeLoudnessArgs(inputPath, target, measured, outputPath), options);
+  return parseLoudnessReport(normalizePass.stderr, target);
+}
+
+export function renderVideo(
+  render: RenderVideoOptions,
+  totalSeconds: number,
+  onProgress: (progress: FfmpegProgress) => void,
+  options: RunOptions = {}
+): Promise<RunResult> {
+  return runFfmpegWithProgress(buildRenderVideoArgs(render), totalSeconds, onProgress, options);
+}
+
+export async function measureImageStats(imagePath: string, options: RunOptions = {}): Promise<ImageStats> {
+  const { stderr } = await runFfmpeg(buildImageStatsArgs(imagePath), options);
+  return parseImageStats(stderr);
+}
+
+export function renderThumbnail(imagePath: string, filter: string, outputPath: string, options: RunOptions = {}): Promise<RunResult> {
+  return runFfmpeg(buildThumbnailArgs(imagePath, filter, outputPath), options);
+}
@@ -0,0 +1,107 @@
+// Loudness normalisation targets and loudnorm (EBU R128) filter settings for the final audio mix
+
+export type LoudnessTarget = "youtube" | "podcast" | "broadcast";
+
+export interface LoudnessTargetSettings {
+  label: string;
+  integrated: number; // LUFS
+  truePeak: number; // dBTP
+  range: number; // LU, loudness range
+}
+
+export const LOUDNESS_TARGETS: Record<LoudnessTarget, LoudnessTargetSettings> = {
+  youtube: { label: "YouTube (-14 LUFS)", integrated: -14, truePeak: -1, range: 11 },
+  podcast: { label: "Podcast (-16 LUFS)", integrated: -16, truePeak: -1, range: 11 },
+  broadcast: { label: "Broadcast (-23 LUFS)", integrated: -23, truePeak: -1, range: 20 },
+};
+
+export const DEFAULT_LOUDNESS_TARGET: LoudnessTarget = "youtube";
+
+// What loudnorm measured on its first pass, fed back into the second
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS
+  truePeak: number; // dBTP
+  range: number; // LU
+  threshold: number; // LUFS
+  offset: number; // LU
+}
+
+// Loudness of the finished mix, returned to the client
+export interface LoudnessReport {
+  target: LoudnessTarget;
+  integrated: number; // LUFS
+  truePeak: number; // dBTP
+}
+
+export function normalizeLoudnessTarget(input: any): LoudnessTarget {
+  return typeof input === "string" && Object.prototype.hasOwnProperty.call(LOUDNESS_TARGETS, input)
+    ? input as LoudnessTarget
+    : DEFAULT_LOUDNESS_TARGET;
+}
+
+// loudnorm filter for the target. Without a measurement it only analyses (first pass);
+// with one it normalises linearly to the target (second pass).
+export function buildLoudnormFilter(target: LoudnessTarget, measured?: LoudnessMeasurement): string {
+  const { integrated, truePeak, range } = LOUDNESS_TARGETS[target];
+  const options = [`I=${integrated}`, `TP=${truePeak}`, `LRA=${range}`];
+
+  if (measured) {
+    options.push(
+      `measured_I=${measured.integrated}`,
+      `measured_TP=${measured.truePeak}`,
+      `measured_LRA=${measured.range}`,
+      `measured_thresh=${measured.threshold}`,
+      `offset=${measured.offset}`,
+      "linear=true"
+    );
+  }
+
+  options.push("print_format=json");
+  return `loudnorm=${options.join(":")}`;
+}
+
+// loudnorm prints its statistics as the last JSON object in FFmpeg's log
+function parseLoudnormJson(log: string): Record<string, string> {
+  const start = log.lastIndexOf("{");
+  const end = log.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("No loudnorm statistics in FFmpeg output");
+  }
+  return JSON.parse(log.slice(start, end + 1));
+}
+
+// loudnorm reports "-inf" (and an "inf" offset) for audio too quiet to measure
+function toNumber(stats: Record<string, string>, key: string): number {
+  const text = stats[key]?.trim();
+  if (text === "-inf") return -Infinity;
+  if (text === "inf") return Infinity;
+
+  const value = parseFloat(stats[key]);
+  if (isNaN(value)) {
+    throw new Error(`Invalid loudnorm statistic ${key}: ${stats[key]}`);
+  }
+  return value;
+}
+
+// Input loudness from a first pass, null when the audio is silent or too quiet to measure
+export function parseLoudnessMeasurement(log: string): LoudnessMeasurement | null {
+  const stats = parseLoudnormJson(log);
+  const measured = {
+    integrated: toNumber(stats, "input_i"),
+    truePeak: toNumber(stats, "input_tp"),
+    range: toNumber(stats, "input_lra"),
+    threshold: toNumber(stats, "input_thresh"),
+    offset: toNumber(stats, "target_offset"),
+  };
+  return Object.values(measured).every(isFinite) ? measured : null;
+}
+
+// Output loudness from a second pass
+export function parseLoudnessReport(log: string, target: LoudnessTarget): LoudnessReport {
+  const stats = parseLoudnormJson(log);
+  return {
+    target,
+    integrated: toNumber(stats, "output_i"),
+    truePeak: toNumber(stats, "output_tp"),
+  };
+}
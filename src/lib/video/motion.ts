@@ -0,0 +1,102 @@
+// Ken Burns motion presets applied to each timed image by the /api/video/generate route
+
+import { numberOr, optionOr, toFields } from "./normalize";
+
+export type MotionPreset =
+  | "zoom-in"
+  | "zoom-out"
+  | "pan-left"
+  | "pan-right"
+  | "pan-up"
+  | "pan-down"
+  | "static"
+  | "focal-zoom";
+
+export interface MotionDescriptor {
+  preset: MotionPreset;
+  // Point to zoom towards for "focal-zoom", as fractions of the image (0 = left/top, 1 = right/bottom)
+  focalX?: number;
+  focalY?: number;
+  // Maximum zoom factor reached during the shot, e.g. 1.15 = 15% closer
+  zoom?: number;
+}
+
+export const DEFAULT_MOTION: MotionDescriptor = { preset: "zoom-in", zoom: 1.15 };
+
+export const MOTION_OPTIONS: { value: MotionPreset; label: string }[] = [
+  { value: "zoom-in", label: "Zoom in" },
+  { value: "zoom-out", label: "Zoom out" },
+  { value: "pan-left", label: "Pan left" },
+  { value: "pan-right", label: "Pan right" },
+  { value: "pan-up", label: "Pan up" },
+  { value: "pan-down", label: "Pan down" },
+  { value: "focal-zoom", label: "Focal point zoom" },
+  { value: "static", label: "Static" },
+];
+
+// Validate a motion descriptor coming from the client, falling back to the default preset
+export function normalizeMotion(input: unknown): MotionDescriptor {
+  const fields = toFields(input);
+
+  return {
+    preset: optionOr(MOTION_OPTIONS, fields.preset, DEFAULT_MOTION.preset),
+    zoom: numberOr(fields.zoom, DEFAULT_MOTION.zoom ?? 1.15, 1.01, 2),
+    focalX: numberOr(fields.focalX, 0.5, 0, 1),
+    focalY: numberOr(fields.focalY, 0.5, 0, 1),
+  };
+}
+
+// Build a zoompan filter that runs the motion once over exactly `frames` output frames.
+// The input is expected to be a single still image, so zoompan's `on` counter goes
+// from 0 to frames - 1 and gives us the progress through the shot.
+export function buildMotionFilter(
+  motion: MotionDescriptor,
+  frames: number,
+  width: number,
+  height: number,
+  fps: number
+): string {
+  const maxZoom = (motion.zoom ?? DEFAULT_MOTION.zoom ?? 1.15).toFixed(4);
+  const progress = `(on/${Math.max(frames - 1, 1)})`;
+  const centerX = "iw/2-(iw/zoom/2)";
+  const centerY = "ih/2-(ih/zoom/2)";
+
+  let z = "1";
+  let x = centerX;
+  let y = centerY;
+
+  switch (motion.preset) {
+    case "zoom-in":
+      z = `1+(${maxZoom}-1)*${progress}`;
+      break;
+    case "zoom-out":
+      z = `${maxZoom}-(${maxZoom}-1)*${progress}`;
+      break;
+    case "pan-left":
+      z = maxZoom;
+      x = `(iw-iw/zoom)*(1-${progress})`;
+      break;
+    case "pan-right":
+      z = maxZoom;
+      x = `(iw-iw/zoom)*${progress}`;
+      break;
+    case "pan-up":
+      z = maxZoom;
+      y = `(ih-ih/zoom)*(1-${progress})`;
+      break;
+    case "pan-down":
+      z = maxZoom;
+      y = `(ih-ih/zoom)*${progress}`;
+      break;
+    case "focal-zoom":
+      // zoompan clamps x/y to the image, so focal points near the edges stay in frame
+      z = `1+(${maxZoom}-1)*${progress}`;
+      x = `iw*${(motion.focalX ?? 0.5).toFixed(4)}-(iw/zoom/2)`;
+      y = `ih*${(motion.focalY ?? 0.5).toFixed(4)}-(ih/zoom/2)`;
+      break;
+    case "static":
+      break;
+  }
+
+  return `zoompan=z='${z}':x='${x}':y='${y}':d=${frames}:s=${width}x${height}:fps=${fps}`;
+}
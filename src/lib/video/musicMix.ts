@@ -0,0 +1,72 @@
+// Background music mix settings shared by the MusicGeneration step and the /api/video/generate route
+
+import { numberOr, toFields } from "./normalize";
+
+export interface MusicMixSettings {
+  bedLevel: number; // Music volume relative to its source, 0-1
+  ducking: boolean; // Compress the music whenever the voiceover is speaking
+  threshold: number; // dB, voiceover level above which the music ducks
+  ratio: number; // Compression ratio while ducked
+  attack: number; // Milliseconds to duck once speech starts
+  release: number; // Milliseconds to come back up after speech stops
+  fadeIn: number; // Seconds, 0 for none
+  fadeOut: number; // Seconds before the end of the voiceover, 0 for none
+}
+
+export const DEFAULT_MUSIC_MIX: MusicMixSettings = {
+  bedLevel: 0.2,
+  ducking: false,
+  threshold: -30,
+  ratio: 8,
+  attack: 20,
+  release: 400,
+  fadeIn: 0,
+  fadeOut: 3,
+};
+
+export const MAX_MUSIC_FADE = 10;
+
+// Validate music mix settings coming from the client, falling back to defaults
+export function normalizeMusicMix(input: unknown): MusicMixSettings {
+  const fields = toFields(input);
+
+  return {
+    bedLevel: numberOr(fields.bedLevel, DEFAULT_MUSIC_MIX.bedLevel, 0, 1),
+    ducking: fields.ducking === true,
+    threshold: numberOr(fields.threshold, DEFAULT_MUSIC_MIX.threshold, -60, 0),
+    ratio: numberOr(fields.ratio, DEFAULT_MUSIC_MIX.ratio, 1, 20),
+    attack: numberOr(fields.attack, DEFAULT_MUSIC_MIX.attack, 1, 2000),
+    release: numberOr(fields.release, DEFAULT_MUSIC_MIX.release, 10, 9000),
+    fadeIn: numberOr(fields.fadeIn, DEFAULT_MUSIC_MIX.fadeIn, 0, MAX_MUSIC_FADE),
+    fadeOut: numberOr(fields.fadeOut, DEFAULT_MUSIC_MIX.fadeOut, 0, MAX_MUSIC_FADE),
+  };
+}
+
+// Filtergraph mixing the music (input 1) under the voiceover (input 0). With ducking the
+// voiceover is split off as the sidechain key of a compressor on the music. amix would
+// scale both inputs down by half, normalize=0 keeps the voiceover at its own level.
+export function buildMusicMixFilter(mix: MusicMixSettings, voiceoverDuration: number): string {
+  const musicFilters = [`volume=${mix.bedLevel}`];
+  if (mix.fadeIn > 0) {
+    musicFilters.push(`afade=t=in:st=0:d=${mix.fadeIn}`);
+  }
+  if (mix.fadeOut > 0) {
+    musicFilters.push(`afade=t=out:st=${Math.max(0, voiceoverDuration - mix.fadeOut)}:d=${mix.fadeOut}`);
+  }
+
+  const music = `[1:a]${musicFilters.join(",")}[music]`;
+
+  if (!mix.ducking) {
+    return `${music};[0:a][music]amix=inputs=2:duration=longest:normalize=0`;
+  }
+
+  // sidechaincompress takes a linear threshold
+  const threshold = Math.pow(10, mix.threshold / 20).toFixed(5);
+
+  return [
+    music,
+    "[0:a]asplit=2[voice][key]",
+    `[music][key]sidechaincompress=threshold=${threshold}:ratio=${mix.ratio}:attack=${mix.attack}:release=${mix.release}[ducked]`,
+    "[voice][ducked]amix=inputs=2:duration=longest:normalize=0",
+  ].join(";");
+}
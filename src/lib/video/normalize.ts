@@ -0,0 +1,35 @@
+// Checks shared by the normalize* functions that validate render settings coming from the
+// client. Every field falls back to its default when it is missing or malformed.
+
+export type Fields = Record<string, unknown>;
+
+// The input's fields, none when it isn't an object
+export function toFields(input: unknown): Fields {
+  return typeof input === "object" && input !== null && !Array.isArray(input) ? input as Fields : {};
+}
+
+export const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// A finite number kept within the range, otherwise the fallback
+export function numberOr(value: unknown, fallback: number, min: number, max: number): number {
+  return typeof value === "number" && isFinite(value) ? clamp(value, min, max) : fallback;
+}
+
+// A whole number kept within the range, otherwise the fallback
+export function integerOr(value: unknown, fallback: number, min: number, max: number): number {
+  return typeof value === "number" && isFinite(value) ? clamp(Math.round(value), min, max) : fallback;
+}
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+// A #RRGGBB colour, otherwise the fallback
+export function colorOr(value: unknown, fallback: string): string {
+  return isHexColor(value) ? value : fallback;
+}
+
+// The value of one of the options, otherwise the fallback
+export function optionOr<T extends string>(options: readonly { value: T }[], value: unknown, fallback: T): T {
+  return options.find(option => option.value === value)?.value ?? fallback;
+}
@@ -0,0 +1,154 @@
+// YouTube publish kit: title options, a description with chapter markers, hashtags and
+// tags. Chapters are cut at the video's scene boundaries so their timestamps are exact.
+
+import { WordTiming } from "../voiceover/alignment";
+
+// Where the voiceover sits in the rendered video, returned with every render
+export interface VideoTimeline {
+  introDuration: number; // Seconds of intro card before the voiceover
+  voiceoverDuration: number;
+  sceneStarts: number[]; // Seconds into the voiceover where each image starts
+}
+
+// A run of scenes that becomes one chapter, in voiceover time
+export interface ChapterSegment {
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+export interface Chapter {
+  time: number; // Seconds into the video
+  title: string;
+}
+
+export interface PublishKit {
+  videoId: string;
+  titles: string[];
+  description: string; // Including the chapter list and hashtags
+  chapters: Chapter[];
+  hashtags: string[];
+  tags: string[];
+  createdAt: number;
+}
+
+// YouTube only shows chapters when there are at least three, each at least 10 seconds long
+export const MIN_CHAPTERS = 3;
+export const MIN_CHAPTER_DURATION = 10;
+const MAX_CHAPTERS = 10;
+
+// YouTube ignores all hashtags past 15 and limits the tags to 500 characters
+const MAX_HASHTAGS = 5;
+const MAX_TAGS_LENGTH = 500;
+
+export function normalizeVideoTimeline(input: any): VideoTimeline | null {
+  const voiceoverDuration = Number(input?.voiceoverDuration);
+  if (!(voiceoverDuration > 0)) return null;
+
+  const sceneStarts: number[] = Array.isArray(input?.sceneStarts)
+    ? input.sceneStarts.filter((start: any) => typeof start === "number" && start >= 0 && start < voiceoverDuration)
+    : [];
+
+  return {
+    introDuration: Math.max(0, Number(input?.introDuration) || 0),
+    voiceoverDuration,
+    sceneStarts: [0, ...sceneStarts].sort((a, b) => a - b).filter((start, i, starts) => i === 0 || start > starts[i - 1]),
+  };
+}
+
+// Group the scenes into chapters of at least MIN_CHAPTER_DURATION, fewer and longer for long
+// videos, each with the words spoken in it. Empty when there aren't enough for YouTube.
+export function buildChapterSegments(timeline: VideoTimeline, words: WordTiming[]): ChapterSegment[] {
+  const { voiceoverDuration, sceneStarts } = timeline;
+  const minDuration = Math.max(MIN_CHAPTER_DURATION, voiceoverDuration / MAX_CHAPTERS);
+
+  const starts = [0];
+  for (const start of sceneStarts) {
+    const last = starts[starts.length - 1];
+    if (start - last >= minDuration && voiceoverDuration - start >= MIN_CHAPTER_DURATION) {
+      starts.push(start);
+    }
+  }
+
+  if (starts.length < MIN_CHAPTERS) return [];
+
+  return starts.map((startTime, i) => {
+    const endTime = i < starts.length - 1 ? starts[i + 1] : voiceoverDuration;
+    const text = words
+      .filter(word => word.start >= startTime && (word.start < endTime || i === starts.length - 1))
+      .map(word => word.word)
+      .join(" ");
+    return { startTime, endTime, text };
+  });
+}
+
+// Chapters in video time: the first always starts at 0:00, covering the intro card
+export function buildChapters(segments: ChapterSegment[], titles: string[], introDuration: number): Chapter[] {
+  return segments.map((segment, i) => ({
+    time: i === 0 ? 0 : segment.startTime + introDuration,
+    title: titles[i]?.trim() || `Part ${i + 1}`,
+  }));
+}
+
+// m:ss, or h:mm:ss from an hour, the format YouTube reads chapters from
+export function formatChapterTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+export function normalizeHashtags(input: any): string[] {
+  if (!Array.isArray(input)) return [];
+
+  const hashtags = input
+    .filter((tag): tag is string => typeof tag === "string")
+    .map(tag => `#${tag.replace(/[^\w]/g, "")}`)
+    .filter(tag => tag.length > 1);
+  return Array.from(new Set(hashtags)).slice(0, MAX_HASHTAGS);
+}
+
+// Unique tags without the characters YouTube rejects, up to its total length limit
+export function normalizeTags(input: any): string[] {
+  if (!Array.isArray(input)) return [];
+
+  const tags: string[] = [];
+  let length = 0;
+  for (const item of input) {
+    if (typeof item !== "string") continue;
+    const tag = item.replace(/[<>,#]/g, "").trim();
+    if (!tag || tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) continue;
+    if (length + tag.length + 1 > MAX_TAGS_LENGTH) break;
+    tags.push(tag);
+    length += tag.length + 1;
+  }
+  return tags;
+}
+
+// The description as pasted into YouTube: the summary, the chapter list and the hashtags
+export function buildDescription(summary: string, chapters: Chapter[], hashtags: string[]): string {
+  const sections = [summary.trim()];
+  if (chapters.length > 0) {
+    sections.push(["Chapters", ...chapters.map(chapter => `${formatChapterTime(chapter.time)} ${chapter.title}`)].join("\n"));
+  }
+  if (hashtags.length > 0) {
+    sections.push(hashtags.join(" "));
+  }
+  return sections.filter(Boolean).join("\n\n");
+}
+
+// Plain text version of the kit for the download
+export function formatPublishKitText(kit: PublishKit): string {
+  return [
+    "TITLE OPTIONS",
+    ...kit.titles.map((title, i) => `${i + 1}. ${title}`),
+    "",
+    "DESCRIPTION",
+    kit.description,
+    "",
+    "TAGS",
+    kit.tags.join(", "),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,171 @@
+// In-process queue of video render jobs. Renders run one at a time in the background;
+// clients poll /api/video/jobs/[jobId] or subscribe to its events stream for progress.
+
+import crypto from "crypto";
+
+export type RenderJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface RenderProgress {
+  stage: string; // What the job is doing right now, shown in the UI
+  percent: number; // 0-100, from FFmpeg's encoded time against the video duration
+  frame: number; // Frames encoded so far
+  encodedSeconds: number; // Seconds of video encoded so far
+  totalSeconds: number; // Length of the video being rendered
+}
+
+export interface RenderJob {
+  id: string;
+  status: RenderJobStatus;
+  progress: RenderProgress;
+  result?: any; // Response body of the finished render
+  error?: string;
+  createdAt: number;
+}
+
+export type RenderTask = (
+  job: RenderJob,
+  update: (progress: Partial<RenderProgress>) => void,
+  signal: AbortSignal
+) => Promise<any>;
+
+type Listener = (job: RenderJob) => void;
+
+interface JobEntry {
+  job: RenderJob;
+  task: RenderTask;
+  controller: AbortController;
+  listeners: Set<Listener>;
+}
+
+interface RenderQueue {
+  entries: Map<string, JobEntry>;
+  pending: string[];
+  running: boolean;
+}
+
+// Finished jobs are kept around this long so clients can still read the result
+const FINISHED_JOB_TTL = 60 * 60 * 1000;
+
+// Route handlers are bundled separately, keep the queue on the global object so they share it
+const globalForJobs = globalThis as unknown as { renderQueue?: RenderQueue };
+const queue: RenderQueue = globalForJobs.renderQueue ??= {
+  entries: new Map(),
+  pending: [],
+  running: false,
+};
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super("Render cancelled");
+    this.name = "RenderCancelledError";
+  }
+}
+
+// Throw if the job was cancelled, call between render stages
+export function throwIfCancelled(signal: AbortSignal) {
+  if (signal.aborted) {
+    throw new RenderCancelledError();
+  }
+}
+
+function notify(entry: JobEntry) {
+  const snapshot = { ...entry.job, progress: { ...entry.job.progress } };
+  entry.listeners.forEach(listener => listener(snapshot));
+}
+
+function finish(entry: JobEntry, status: RenderJobStatus, fields: Partial<RenderJob>) {
+  Object.assign(entry.job, fields, { status });
+  notify(entry);
+  entry.listeners.clear();
+
+  setTimeout(() => queue.entries.delete(entry.job.id), FINISHED_JOB_TTL).unref?.();
+}
+
+async function runNext() {
+  if (queue.running) return;
+
+  const id = queue.pending.shift();
+  const entry = id ? queue.entries.get(id) : undefined;
+  if (!entry) {
+    if (queue.pending.length > 0) runNext();
+    return;
+  }
+
+  queue.running = true;
+  entry.job.status = "running";
+  entry.job.progress.stage = "Preparing files";
+  notify(entry);
+
+  const update = (progress: Partial<RenderProgress>) => {
+    if (entry.job.status !== "running") return;
+    Object.assign(entry.job.progress, progress);
+    notify(entry);
+  };
+
+  try {
+    const result = await entry.task(entry.job, update, entry.controller.signal);
+    throwIfCancelled(entry.controller.signal);
+    finish(entry, "completed", {
+      result,
+      progress: { ...entry.job.progress, stage: "Done", percent: 100 },
+    });
+  } catch (error) {
+    if (entry.controller.signal.aborted) {
+      finish(entry, "cancelled", { progress: { ...entry.job.progress, stage: "Cancelled" } });
+    } else {
+      console.error(`Render job ${entry.job.id} failed:`, error);
+      finish(entry, "failed", { error: (error as Error).message });
+    }
+  } finally {
+    queue.running = false;
+    runNext();
+  }
+}
+
+// Queue a render and return its job straight away
+export function enqueueRenderJob(task: RenderTask): RenderJob {
+  const job: RenderJob = {
+    id: crypto.randomUUID(),
+    status: "queued",
+    progress: { stage: "Waiting in queue", percent: 0, frame: 0, encodedSeconds: 0, totalSeconds: 0 },
+    createdAt: Date.now(),
+  };
+
+  queue.entries.set(job.id, { job, task, controller: new AbortController(), listeners: new Set() });
+  queue.pending.push(job.id);
+  runNext();
+
+  return job;
+}
+
+export function getRenderJob(id: string): RenderJob | undefined {
+  return queue.entries.get(id)?.job;
+}
+
+// Cancel a queued or running job. Returns false if there's no such job or it already finished.
+export function cancelRenderJob(id: string): boolean {
+  const entry = queue.entries.get(id);
+  if (!entry || (entry.job.status !== "queued" && entry.job.status !== "running")) {
+    return false;
+  }
+
+  entry.controller.abort();
+
+  if (entry.job.status === "queued") {
+    queue.pending = queue.pending.filter(pendingId => pendingId !== id);
+    finish(entry, "cancelled", { progress: { ...entry.job.progress, stage: "Cancelled" } });
+  }
+
+  return true;
+}
+
+// Listen for updates to a job until it finishes. Returns an unsubscribe function.
+export function subscribeToRenderJob(id: string, listener: Listener): () => void {
+  const entry = queue.entries.get(id);
+  if (!entry) return () => {};
+
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
@@ -0,0 +1,78 @@
+// Filtergraph for turning timed still images into the video track of a render
+
+import { MotionDescriptor, buildMotionFilter } from "./motion";
+import { TransitionSettings, XFADE_TRANSITIONS } from "./transitions";
+
+interface SlideshowFiltergraphOptions {
+  startTimes: number[]; // On-screen start of each image in seconds, first one is 0
+  totalDuration: number; // End of the last image in seconds
+  motions: MotionDescriptor[]; // Motion for each image, same order as startTimes
+  transition: TransitionSettings;
+  width: number;
+  height: number;
+  fps: number;
+}
+
+// Build a filter_complex graph for the images, where input N is the Nth image.
+// Each image becomes a clip whose motion runs over its own frame count. With hard
+// cuts the clips are concatenated; otherwise every clip except the last is extended
+// by the length of the following transition and chained with xfade at offset = start
+// time of the next image, so each image starts appearing exactly at its timestamp.
+export function buildSlideshowFiltergraph({
+  startTimes,
+  totalDuration,
+  motions,
+  transition,
+  width,
+  height,
+  fps,
+}: SlideshowFiltergraphOptions): string {
+  const count = startTimes.length;
+  const useTransitions = transition.type !== "none" && count > 1;
+  const shotDurations = startTimes.map((start, i) =>
+    (i < count - 1 ? startTimes[i + 1] : totalDuration) - start
+  );
+
+  // Transition into image i can't take more than half of either neighbouring shot
+  const transitionDurations = startTimes.map((_, i) =>
+    i === 0 || !useTransitions
+      ? 0
+      : Math.min(transition.duration, shotDurations[i - 1] / 2, shotDurations[i] / 2)
+  );
+
+  const filters: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const clipEnd = startTimes[i] + shotDurations[i] + (i < count - 1 ? transitionDurations[i + 1] : 0);
+    // Round both ends to frame boundaries so hard cuts don't drift over long videos
+    const frames = Math.max(1, Math.round(clipEnd * fps) - Math.round(startTimes[i] * fps));
+    const outputLabel = count === 1 ? "vout" : `v${i}`;
+
+    // Upscale before zoompan so slow motion doesn't jitter from rounding to whole pixels
+    filters.push(
+      `[${i}:v]scale=${width * 2}:${height * 2}:force_original_aspect_ratio=increase,` +
+      `crop=${width * 2}:${height * 2},setsar=1:1,` +
+      `${buildMotionFilter(motions[i], frames, width, height, fps)},` +
+      `format=yuv420p[${outputLabel}]`
+    );
+  }
+
+  if (count > 1 && !useTransitions) {
+    const inputs = startTimes.map((_, i) => `[v${i}]`).join("");
+    filters.push(`${inputs}concat=n=${count}:v=1:a=0[vout]`);
+  } else if (useTransitions) {
+    const xfadeName = XFADE_TRANSITIONS[transition.type as keyof typeof XFADE_TRANSITIONS];
+    let previousLabel = "v0";
+
+    for (let i = 1; i < count; i++) {
+      const outputLabel = i === count - 1 ? "vout" : `x${i}`;
+      filters.push(
+        `[${previousLabel}][v${i}]xfade=transition=${xfadeName}:` +
+        `duration=${transitionDurations[i].toFixed(3)}:offset=${startTimes[i].toFixed(3)}[${outputLabel}]`
+      );
+      previousLabel = outputLabel;
+    }
+  }
+
+  return filters.join(";\n");
+}
@@ -0,0 +1,78 @@
+// SRT and WebVTT sidecar captions written next to every rendered video
+
+import { WordTiming } from "../voiceover/alignment";
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number; // Seconds
+  text: string;
+}
+
+const MAX_CUE_CHARS = 84; // Two lines of ~42 characters
+const MAX_CUE_DURATION = 6;
+
+// Group timed words into readable cues, breaking at sentence ends, length and duration limits
+export function buildSubtitleCues(words: WordTiming[]): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let current: WordTiming[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: current.map(word => word.word).join(" "),
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const text = [...current, word].map(w => w.word).join(" ");
+    if (
+      current.length > 0 &&
+      (text.length > MAX_CUE_CHARS || word.end - current[0].start > MAX_CUE_DURATION)
+    ) {
+      flush();
+    }
+
+    current.push(word);
+
+    if (/[.!?]$/.test(word.word)) {
+      flush();
+    }
+  }
+
+  flush();
+
+  return cues;
+}
+
+// Format seconds as HH:MM:SS{separator}mmm
+function formatCueTime(seconds: number, separator: string): string {
+  const milliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const secs = Math.floor((milliseconds % 60000) / 1000);
+  const ms = milliseconds % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function buildSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) =>
+      `${index + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}\n${cue.text}\n`
+    )
+    .join("\n");
+}
+
+export function buildVtt(cues: SubtitleCue[]): string {
+  // "-->" would end the cue timing line early, so keep it out of cue text
+  const body = cues
+    .map(cue =>
+      `${formatCueTime(cue.start, ".")} --> ${formatCueTime(cue.end, ".")}\n${cue.text.replace(/-->/g, "->")}\n`
+    )
+    .join("\n");
+
+  return `WEBVTT\n\n${body}`;
+}
@@ -0,0 +1,159 @@
+// YouTube thumbnails: a strong frame or generated image with a short hook headline in
+// bold outlined text, rendered by FFmpeg in a few variants to choose from.
+
+import { escapeFilterPath } from "./captions";
+
+export const THUMBNAIL_WIDTH = 1280;
+export const THUMBNAIL_HEIGHT = 720;
+export const THUMBNAIL_VARIANTS = 3;
+
+export type ThumbnailSource = "frames" | "generate";
+
+export interface Thumbnail {
+  url: string;
+  headline: string;
+  source: ThumbnailSource;
+}
+
+// signalstats of a still image, 8-bit luma and chroma values
+export interface ImageStats {
+  lumaLow: number; // YLOW, 10th percentile of the luma
+  lumaHigh: number; // YHIGH, 90th percentile of the luma
+  saturation: number; // SATAVG
+}
+
+// Each variant places and colours the headline differently
+const VARIANT_STYLES: { textColor: string; position: "top" | "center" | "bottom" }[] = [
+  { textColor: "#FFFFFF", position: "bottom" },
+  { textColor: "#FFD700", position: "top" },
+  { textColor: "#FFFFFF", position: "center" },
+];
+
+const MIN_HEADLINE_WORDS = 3;
+const MAX_HEADLINE_WORDS = 5;
+const MAX_FONT_SIZE = 150;
+const MARGIN = 48;
+
+export function normalizeThumbnailSource(input: any): ThumbnailSource {
+  return input === "generate" ? "generate" : "frames";
+}
+
+// Clean up a headline from the model: no quotes or trailing punctuation, at most five words
+export function normalizeHeadline(headline: string): string {
+  return headline
+    .replace(/["“”]/g, "")
+    .replace(/[.!?,;:]+$/, "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, MAX_HEADLINE_WORDS)
+    .join(" ")
+    .toUpperCase();
+}
+
+export interface ThumbnailIdeas {
+  headlines: string[];
+  imagePrompt: string | null; // For a dedicated thumbnail image
+}
+
+// Headlines and an image prompt from the model's JSON reply, with a line per headline as a fallback
+export function parseThumbnailIdeas(content: string): ThumbnailIdeas {
+  const cleaned = content.replace(/```(?:json)?/g, "").trim();
+
+  let headlines: string[];
+  let imagePrompt: string | null = null;
+  try {
+    const parsed = JSON.parse(cleaned);
+    const list = Array.isArray(parsed) ? parsed : parsed?.headlines;
+    headlines = Array.isArray(list) ? list.filter((item: any) => typeof item === "string") : [];
+    if (typeof parsed?.imagePrompt === "string" && parsed.imagePrompt.trim()) {
+      imagePrompt = parsed.imagePrompt.trim();
+    }
+  } catch (error) {
+    headlines = cleaned.split("\n").map(line => line.replace(/^\s*(?:\d+[.)]|[-*])\s*/, ""));
+  }
+
+  return {
+    headlines: headlines
+      .map(normalizeHeadline)
+      .filter(headline => headline.split(" ").length >= MIN_HEADLINE_WORDS),
+    imagePrompt,
+  };
+}
+
+// Read the signalstats values FFmpeg's metadata filter prints for a single frame
+export function parseImageStats(stderr: string): ImageStats {
+  const values: Record<string, number> = {};
+  const pattern = /lavfi\.signalstats\.(\w+)=([\d.]+)/g;
+  let match;
+  while ((match = pattern.exec(stderr)) !== null) {
+    values[match[1]] = parseFloat(match[2]);
+  }
+
+  if (values.YLOW === undefined || values.YHIGH === undefined || values.SATAVG === undefined) {
+    throw new Error("Could not read the image statistics from FFmpeg's output");
+  }
+
+  return { lumaLow: values.YLOW, lumaHigh: values.YHIGH, saturation: values.SATAVG };
+}
+
+// How well a frame works as a thumbnail: contrast plus colourfulness, so flat, dark or
+// washed-out frames rank below punchy ones
+export function scoreThumbnailFrame(stats: ImageStats): number {
+  const contrast = (stats.lumaHigh - stats.lumaLow) / 219;
+  const saturation = Math.min(stats.saturation / 128, 1);
+  return contrast + saturation;
+}
+
+// Break the headline into one or two lines of similar length
+export function splitHeadline(headline: string): string[] {
+  const words = headline.split(" ");
+  if (words.length <= 2) return [headline];
+
+  let best = 1;
+  for (let i = 1; i < words.length; i++) {
+    const first = words.slice(0, i).join(" ").length;
+    const second = words.slice(i).join(" ").length;
+    const bestFirst = words.slice(0, best).join(" ").length;
+    const bestSecond = words.slice(best).join(" ").length;
+    if (Math.max(first, second) < Math.max(bestFirst, bestSecond)) best = i;
+  }
+
+  return [words.slice(0, best).join(" "), words.slice(best).join(" ")];
+}
+
+export interface ThumbnailFilterOptions {
+  linePaths: string[]; // A text file per headline line, so every line is centred
+  longestLine: number; // Characters in the longest line, to size the text
+  variant: number;
+  fontPath?: string | null; // Font file for the text, otherwise a bold system font
+}
+
+// Fill the frame with the image, darken it slightly and draw the headline over it
+export function buildThumbnailFilter({ linePaths, longestLine, variant, fontPath }: ThumbnailFilterOptions): string {
+  const style = VARIANT_STYLES[variant % VARIANT_STYLES.length];
+  const fontSize = Math.min(MAX_FONT_SIZE, Math.floor((THUMBNAIL_WIDTH * 0.9) / (Math.max(longestLine, 1) * 0.62)));
+  const lineHeight = Math.round(fontSize * 1.1);
+  const blockHeight = lineHeight * linePaths.length;
+  const top = style.position === "top"
+    ? MARGIN
+    : style.position === "bottom"
+      ? THUMBNAIL_HEIGHT - MARGIN - blockHeight
+      : Math.round((THUMBNAIL_HEIGHT - blockHeight) / 2);
+
+  const font = fontPath ? `fontfile=${escapeFilterPath(fontPath)}` : `font=${escapeFilterPath("Sans:bold")}`;
+  const outline = Math.max(4, Math.round(fontSize / 12));
+
+  const filters = [
+    `scale=${THUMBNAIL_WIDTH}:${THUMBNAIL_HEIGHT}:force_original_aspect_ratio=increase`,
+    `crop=${THUMBNAIL_WIDTH}:${THUMBNAIL_HEIGHT}`,
+    "setsar=1",
+    "drawbox=x=0:y=0:w=iw:h=ih:color=black@0.2:t=fill",
+    ...linePaths.map((linePath, i) =>
+      `drawtext=textfile=${escapeFilterPath(linePath)}:expansion=none:${font}:fontcolor=0x${style.textColor.slice(1)}:fontsize=${fontSize}` +
+      `:borderw=${outline}:bordercolor=black:shadowx=4:shadowy=4:shadowcolor=black@0.6` +
+      `:x=(w-text_w)/2:y=${top + i * lineHeight}`
+    ),
+  ];
+
+  return filters.join(",");
+}
@@ -0,0 +1,130 @@
+// Intro and outro title cards, rendered by FFmpeg from text instead of generated images
+
+import { buildMotionFilter } from "./motion";
+import { escapeFilterPath } from "./captions";
+import { colorOr, numberOr, toFields } from "./normalize";
+
+export interface TitleCardSettings {
+  enabled: boolean;
+  text: string;
+  subtitle: string;
+  backgroundColor: string; // #RRGGBB, used when there's no background image
+  backgroundImage: string | null; // Data URL
+  textColor: string; // #RRGGBB
+  duration: number; // Seconds
+}
+
+export const DEFAULT_INTRO: TitleCardSettings = {
+  enabled: false,
+  text: "",
+  subtitle: "",
+  backgroundColor: "#000000",
+  backgroundImage: null,
+  textColor: "#FFFFFF",
+  duration: 3,
+};
+
+export const DEFAULT_OUTRO: TitleCardSettings = {
+  enabled: false,
+  text: "Subscribe for more",
+  subtitle: "",
+  backgroundColor: "#000000",
+  backgroundImage: null,
+  textColor: "#FFFFFF",
+  duration: 4,
+};
+
+export const MIN_TITLE_CARD_DURATION = 1;
+export const MAX_TITLE_CARD_DURATION = 10;
+
+// Validate a title card coming from the client, falling back to the given defaults.
+// A card without any text or background image is left out.
+export function normalizeTitleCard(input: unknown, defaults: TitleCardSettings): TitleCardSettings {
+  const fields = toFields(input);
+  const card: TitleCardSettings = {
+    enabled: fields.enabled === true,
+    text: typeof fields.text === "string" ? fields.text.trim() : defaults.text,
+    subtitle: typeof fields.subtitle === "string" ? fields.subtitle.trim() : defaults.subtitle,
+    backgroundColor: colorOr(fields.backgroundColor, defaults.backgroundColor),
+    backgroundImage: typeof fields.backgroundImage === "string" && fields.backgroundImage.startsWith("data:image/")
+      ? fields.backgroundImage
+      : null,
+    textColor: colorOr(fields.textColor, defaults.textColor),
+    duration: numberOr(fields.duration, defaults.duration, MIN_TITLE_CARD_DURATION, MAX_TITLE_CARD_DURATION),
+  };
+
+  if (!card.text && !card.subtitle && !card.backgroundImage) {
+    card.enabled = false;
+  }
+
+  return card;
+}
+
+export interface TitleCardGraphOptions {
+  card: TitleCardSettings;
+  imageInput: number | null; // FFmpeg input index of the background image
+  textPath: string | null; // File with the title, drawtext reads it so the text needs no escaping
+  subtitlePath: string | null; // File with the subtitle
+  fontPath?: string | null; // Font file for the text, otherwise FFmpeg's default font
+  width: number;
+  height: number;
+  fps: number;
+  label: string; // Output label
+}
+
+// Filter chain producing the card's frames at the video's size and frame rate.
+// The card fades in from and out to black.
+export function buildTitleCardFilter({
+  card,
+  imageInput,
+  textPath,
+  subtitlePath,
+  fontPath,
+  width,
+  height,
+  fps,
+  label,
+}: TitleCardGraphOptions): string {
+  const frames = Math.max(1, Math.round(card.duration * fps));
+  const filters: string[] = [];
+
+  if (imageInput !== null) {
+    // Hold the image with a static zoompan like a slideshow image, darkened so the text reads
+    filters.push(
+      `[${imageInput}:v]scale=${width}:${height}:force_original_aspect_ratio=increase`,
+      `crop=${width}:${height}`,
+      "setsar=1:1",
+      buildMotionFilter({ preset: "static" }, frames, width, height, fps),
+      "drawbox=c=black@0.45:t=fill"
+    );
+  } else {
+    filters.push(
+      `color=c=0x${card.backgroundColor.slice(1)}:s=${width}x${height}:r=${fps}:d=${frames / fps}`,
+      "setsar=1:1"
+    );
+  }
+
+  const titleSize = Math.round(Math.min(width, height) * 0.09);
+  const subtitleSize = Math.round(Math.min(width, height) * 0.045);
+  const fontColor = `0x${card.textColor.slice(1)}`;
+  const font = fontPath ? `:fontfile=${escapeFilterPath(fontPath)}` : "";
+
+  // With both lines the title sits above the centre and the subtitle below it
+  if (textPath) {
+    const y = subtitlePath ? `(h/2)-text_h-${Math.round(subtitleSize * 0.5)}` : "(h-text_h)/2";
+    filters.push(`drawtext=textfile=${escapeFilterPath(textPath)}:expansion=none${font}:fontcolor=${fontColor}:fontsize=${titleSize}:x=(w-text_w)/2:y=${y}`);
+  }
+  if (subtitlePath) {
+    const y = textPath ? `(h/2)+${Math.round(subtitleSize * 0.5)}` : "(h-text_h)/2";
+    filters.push(`drawtext=textfile=${escapeFilterPath(subtitlePath)}:expansion=none${font}:fontcolor=${fontColor}@0.85:fontsize=${subtitleSize}:x=(w-text_w)/2:y=${y}`);
+  }
+
+  const fade = Math.min(0.5, card.duration / 4);
+  filters.push(
+    `fade=t=in:st=0:d=${fade}`,
+    `fade=t=out:st=${(frames / fps - fade).toFixed(3)}:d=${fade}`,
+    "format=yuv420p"
+  );
+
+  return `${filters.join(",")}[${label}]`;
+}
@@ -0,0 +1,44 @@
+// Transition settings shared by the VideoGeneration step and the /api/video/generate route
+
+export type TransitionType = "none" | "crossfade" | "dip-to-black" | "slide" | "wipe";
+
+export interface TransitionSettings {
+  type: TransitionType;
+  duration: number; // Seconds
+}
+
+export const DEFAULT_TRANSITION: TransitionSettings = {
+  type: "crossfade",
+  duration: 0.75,
+};
+
+export const TRANSITION_OPTIONS: { value: TransitionType; label: string }[] = [
+  { value: "crossfade", label: "Crossfade" },
+  { value: "dip-to-black", label: "Dip to black" },
+  { value: "slide", label: "Slide" },
+  { value: "wipe", label: "Wipe" },
+  { value: "none", label: "None (hard cut)" },
+];
+
+export const MIN_TRANSITION_DURATION = 0.25;
+export const MAX_TRANSITION_DURATION = 2;
+
+// FFmpeg xfade transition names for each of our transition types
+export const XFADE_TRANSITIONS: Record<Exclude<TransitionType, "none">, string> = {
+  crossfade: "fade",
+  "dip-to-black": "fadeblack",
+  slide: "slideleft",
+  wipe: "wipeleft",
+};
+
+// Validate transition settings coming from the client, falling back to defaults
+export function normalizeTransition(input: any): TransitionSettings {
+  const type = TRANSITION_OPTIONS.some(option => option.value === input?.type)
+    ? input.type
+    : DEFAULT_TRANSITION.type;
+  const duration = typeof input?.duration === "number" && isFinite(input.duration)
+    ? Math.min(Math.max(input.duration, MIN_TRANSITION_DURATION), MAX_TRANSITION_DURATION)
+    : DEFAULT_TRANSITION.duration;
+
+  return { type, duration };
+}
@@ -0,0 +1,151 @@
+// Word-level timing of the voiceover, shared by captions, subtitles and image timing
+
+export interface WordTiming {
+  word: string;
+  start: number; // Seconds
+  end: number; // Seconds
+}
+
+// Spread the script's words over the voiceover duration, weighted by word length
+// with extra time for the pauses after punctuation. Only used when we have no real timing.
+export function estimateWordTimings(script: string, duration: number): WordTiming[] {
+  const words = script.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0 || !(duration > 0)) return [];
+
+  const pauseWeight = (word: string) => (/[.!?]$/.test(word) ? 4 : /[,;:]$/.test(word) ? 2 : 0);
+  const weights = words.map(word => word.length + 1 + pauseWeight(word));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const timings: WordTiming[] = [];
+  let elapsed = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    const slot = (weights[i] / totalWeight) * duration;
+    const spoken = ((words[i].length + 1) / weights[i]) * slot;
+    timings.push({ word: words[i], start: elapsed, end: elapsed + spoken });
+    elapsed += slot;
+  }
+
+  return timings;
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^a-z0-9\u00c0-\u024f]/g, "");
+
+// Map the script's words onto timings recognised from the audio, so captions keep the
+// script's spelling and punctuation. Each script word is matched against the next few
+// recognised words; words that can't be matched are interpolated between their neighbours.
+export function alignScriptToTimings(script: string, recognised: WordTiming[], duration: number): WordTiming[] {
+  const words = script.trim().split(/\s+/).filter(Boolean);
+  if (recognised.length === 0) return estimateWordTimings(script, duration);
+
+  const lookahead = 6;
+  const matched: (WordTiming | null)[] = [];
+  let cursor = 0;
+
+  for (const word of words) {
+    const target = normalizeWord(word);
+    let match = -1;
+
+    for (let j = cursor; j < Math.min(cursor + lookahead, recognised.length); j++) {
+      if (target && normalizeWord(recognised[j].word) === target) {
+        match = j;
+        break;
+      }
+    }
+
+    if (match >= 0) {
+      matched.push({ word, start: recognised[match].start, end: recognised[match].end });
+      cursor = match + 1;
+    } else {
+      matched.push(null);
+    }
+  }
+
+  // Fill unmatched runs evenly between the surrounding matched words
+  const result: WordTiming[] = [];
+  let i = 0;
+
+  while (i < words.length) {
+    const current = matched[i];
+    if (current) {
+      result.push(current);
+      i++;
+      continue;
+    }
+
+    let runEnd = i;
+    while (runEnd < words.length && !matched[runEnd]) runEnd++;
+
+    const gapStart = result.length > 0 ? result[result.length - 1].end : 0;
+    const gapEnd = runEnd < words.length ? matched[runEnd]!.start : Math.max(duration, gapStart);
+    const step = (gapEnd - gapStart) / (runEnd - i);
+
+    for (let k = i; k < runEnd; k++) {
+      const start = gapStart + step * (k - i);
+      result.push({ word: words[k], start, end: start + step });
+    }
+
+    i = runEnd;
+  }
+
+  return result;
+}
+
+// Character alignment as returned by ElevenLabs' with-timestamps endpoints
+export interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+// Collapse character timings into words, splitting on whitespace
+export function charactersToWordTimings(alignment: CharacterAlignment | null | undefined): WordTiming[] {
+  if (!alignment || !Array.isArray(alignment.characters)) return [];
+
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+
+  for (let i = 0; i < alignment.characters.length; i++) {
+    const character = alignment.characters[i];
+
+    if (/\s/.test(character)) {
+      if (current) words.push(current);
+      current = null;
+      continue;
+    }
+
+    const start = alignment.character_start_times_seconds[i];
+    const end = alignment.character_end_times_seconds[i];
+
+    if (current) {
+      current.word += character;
+      current.end = end;
+    } else {
+      current = { word: character, start, end };
+    }
+  }
+
+  if (current) words.push(current);
+
+  return words;
+}
+
+// Validate word timings coming from the client
+export function normalizeWordTimings(input: any): WordTiming[] {
+  if (!Array.isArray(input)) return [];
+
+  return input.filter(item =>
+    item &&
+    typeof item.word === "string" &&
+    typeof item.start === "number" &&
+    typeof item.end === "number"
+  );
+}
+
+// Text spoken between two points of the voiceover
+export function getSpokenText(words: WordTiming[], start: number, end: number): string {
+  return words
+    .filter(word => word.start >= start && word.start < end)
+    .map(word => word.word)
+    .join(" ");
+}
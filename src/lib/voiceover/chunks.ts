@@ -0,0 +1,135 @@
+// Long text to speech: split a script into chunks the TTS API accepts, then stitch the
+// rendered pieces back into one track with their word timings shifted into place.
+
+import { WordTiming } from "./alignment";
+
+// Well under the ElevenLabs per-request limit; shorter requests also fail and retry faster
+export const MAX_CHUNK_CHARACTERS = 2500;
+
+// A chunk as placed in the stitched track
+export interface TimedSpeechChunk {
+  index: number;
+  text: string;
+  start: number; // Seconds
+  end: number; // Seconds
+}
+
+// Split text into pieces of at most maxCharacters, filling each chunk with whole sentences
+function splitLongParagraph(paragraph: string, maxCharacters: number): string[] {
+  const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [paragraph];
+  const pieces: string[] = [];
+
+  for (const rawSentence of sentences) {
+    const sentence = rawSentence.trim();
+    if (!sentence) continue;
+
+    // A single sentence over the limit is cut between words
+    if (sentence.length > maxCharacters) {
+      let piece = "";
+      for (const word of sentence.split(/\s+/)) {
+        if (piece && piece.length + word.length + 1 > maxCharacters) {
+          pieces.push(piece);
+          piece = word;
+        } else {
+          piece = piece ? `${piece} ${word}` : word;
+        }
+      }
+      if (piece) pieces.push(piece);
+      continue;
+    }
+
+    const last = pieces[pieces.length - 1];
+    if (last && last.length + sentence.length + 1 <= maxCharacters) {
+      pieces[pieces.length - 1] = `${last} ${sentence}`;
+    } else {
+      pieces.push(sentence);
+    }
+  }
+
+  return pieces;
+}
+
+// Split a script at paragraph boundaries, falling back to sentences for paragraphs over the
+// limit. Short paragraphs are grouped so there are as few chunks as possible.
+export function splitIntoChunks(text: string, maxCharacters: number = MAX_CHUNK_CHARACTERS): string[] {
+  const paragraphs = text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  const chunks: string[] = [];
+
+  for (const paragraph of paragraphs) {
+    const pieces = paragraph.length > maxCharacters ? splitLongParagraph(paragraph, maxCharacters) : [paragraph];
+
+    for (const piece of pieces) {
+      const last = chunks[chunks.length - 1];
+      if (last && pieces.length === 1 && last.length + piece.length + 2 <= maxCharacters) {
+        chunks[chunks.length - 1] = `${last}\n\n${piece}`;
+      } else {
+        chunks.push(piece);
+      }
+    }
+  }
+
+  return chunks;
+}
+
+// Split a script into its paragraphs, each one a chunk of its own so it can be rendered
+// again alone. Paragraphs over the limit are split between sentences.
+export function splitIntoParagraphs(text: string, maxCharacters: number = MAX_CHUNK_CHARACTERS): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => paragraph.length > maxCharacters ? splitLongParagraph(paragraph, maxCharacters) : [paragraph]);
+}
+
+// Start of every piece in a track of pieces played one after another with a gap between
+// them, and the pieces' word timings shifted to those starts
+export function stitchTimings(
+  durations: number[],
+  alignments: WordTiming[][],
+  gap: number
+): { starts: number[]; alignment: WordTiming[] } {
+  const starts: number[] = [];
+  const alignment: WordTiming[] = [];
+  let start = 0;
+
+  durations.forEach((duration, i) => {
+    starts.push(start);
+    alignment.push(...(alignments[i] || []).map(word => ({
+      word: word.word,
+      start: word.start + start,
+      end: word.end + start,
+    })));
+    start += duration + gap;
+  });
+
+  return { starts, alignment };
+}
+
+// Place the chunk recordings one after another, the chunk timing map of the joined track
+export function layoutChunks(
+  chunks: string[],
+  durations: number[],
+  alignments: WordTiming[][],
+  gap: number = 0
+): { chunks: TimedSpeechChunk[]; alignment: WordTiming[] } {
+  const { starts, alignment } = stitchTimings(durations, alignments, gap);
+  const timedChunks = chunks.map((text, index) => ({
+    index,
+    text,
+    start: starts[index],
+    end: starts[index] + durations[index],
+  }));
+
+  return { chunks: timedChunks, alignment };
+}
+
+// Join audio inputs, one per piece, into a single mono track with silence between them
+export function buildAudioConcatFilter(inputCount: number, gap: number): string {
+  const filters = Array.from({ length: inputCount }, (_, i) => {
+    const pad = i < inputCount - 1 && gap > 0 ? `,apad=pad_dur=${gap}` : "";
+    return `[${i}:a]aresample=44100,aformat=sample_fmts=fltp:channel_layouts=mono${pad}[piece${i}]`;
+  });
+  const inputs = Array.from({ length: inputCount }, (_, i) => `[piece${i}]`).join("");
+
+  return [...filters, `${inputs}concat=n=${inputCount}:v=0:a=1[aout]`].join(";\n");
+}
@@ -0,0 +1,52 @@
+// A narration voiceover kept as one clip per paragraph, so a misread paragraph can be edited
+// or rendered again alone and the track re-stitched without voicing the whole script.
+
+import { WordTiming, normalizeWordTimings } from "./alignment";
+import { TimedSpeechChunk } from "./chunks";
+import { VoiceSettings } from "./voiceSettings";
+
+export interface VoiceoverClip {
+  text: string;
+  audioBase64: string; // MP3
+  alignment: WordTiming[]; // Word timings from the start of the clip
+  duration: number; // Seconds
+  settings?: VoiceSettings; // The settings the clip was rendered with
+}
+
+// Clips sent to the stitch route, dropping any without audio
+export function normalizeClips(input: any): VoiceoverClip[] {
+  if (!Array.isArray(input)) return [];
+
+  return input
+    .filter(clip => typeof clip?.audioBase64 === "string" && clip.audioBase64)
+    .map(clip => ({
+      text: typeof clip.text === "string" ? clip.text : "",
+      audioBase64: clip.audioBase64,
+      alignment: normalizeWordTimings(clip.alignment),
+      duration: typeof clip.duration === "number" && clip.duration > 0 ? clip.duration : 0,
+    }));
+}
+
+// The script the clips speak, a paragraph each
+export function getClipsScript(clips: VoiceoverClip[]): string {
+  return clips.map(clip => clip.text).join("\n\n");
+}
+
+// Move a timestamp of the old track to the same place in the new one, where both tracks have
+// the same paragraphs. Paragraphs that kept their length only shift; a re-rendered one
+// stretches its timestamps to its new length.
+export function remapTimestamp(timestamp: number, before: TimedSpeechChunk[], after: TimedSpeechChunk[]): number {
+  const found = before.findIndex(chunk => timestamp < chunk.end);
+  const index = found === -1 ? before.length - 1 : found;
+  const from = before[index];
+  const to = after[index];
+  if (!from || !to) return timestamp;
+
+  const offset = timestamp - from.start;
+  const length = from.end - from.start;
+
+  // Past the end of the track, keep the distance from its end
+  if (offset >= length) return to.end + offset - length;
+
+  return to.start + (length > 0 ? offset / length : 0) * (to.end - to.start);
+}
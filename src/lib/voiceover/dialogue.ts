@@ -0,0 +1,89 @@
+// Dialogue scripts: speaker-labelled lines ("NAME: text"), each rendered with the
+// speaker's voice and joined into one voiceover track with a gap between lines.
+
+import { WordTiming } from "./alignment";
+import { stitchTimings } from "./chunks";
+
+export type ScriptMode = "narration" | "dialogue";
+
+export const DEFAULT_SCRIPT_MODE: ScriptMode = "narration";
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+// A line as placed in the joined voiceover
+export interface TimedDialogueLine extends DialogueLine {
+  voiceId: string;
+  start: number; // Seconds
+  end: number; // Seconds
+}
+
+// Silence between consecutive lines, in seconds
+export const DEFAULT_LINE_GAP = 0.4;
+export const MAX_LINE_GAP = 2;
+
+// "NAME: text", with an optional bold name as models like to write them. The text can
+// also start on the next line.
+const SPEAKER_LINE = /^\**([A-Za-z][\w .'-]{0,30}?)\**\s*:\s*(.*)$/;
+
+export function normalizeScriptMode(input: any): ScriptMode {
+  return input === "dialogue" ? "dialogue" : "narration";
+}
+
+export function normalizeLineGap(input: any): number {
+  return typeof input === "number" && input >= 0 ? Math.min(input, MAX_LINE_GAP) : DEFAULT_LINE_GAP;
+}
+
+// Split a script into speaker lines. Unlabelled lines continue the previous speaker, and
+// text before the first label is dropped; an empty result means it isn't a dialogue.
+export function parseDialogue(script: string): DialogueLine[] {
+  const lines: DialogueLine[] = [];
+
+  for (const rawLine of script.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const match = line.match(SPEAKER_LINE);
+    if (match) {
+      lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+    } else if (lines.length > 0) {
+      const last = lines[lines.length - 1];
+      last.text = `${last.text} ${line}`.trim();
+    }
+  }
+
+  return lines.filter(line => line.text.length > 0);
+}
+
+// Speakers in order of their first line
+export function getSpeakers(lines: DialogueLine[]): string[] {
+  return Array.from(new Set(lines.map(line => line.speaker)));
+}
+
+// The words actually spoken, without the speaker labels, a line per paragraph. This is the
+// script the captions, scenes and image prompts work from.
+export function getSpokenScript(lines: DialogueLine[]): string {
+  return lines.map(line => line.text).join("\n\n");
+}
+
+// Place the lines one after another with the gap between them, shifting each line's word
+// timings to its start in the joined track
+export function layoutDialogue(
+  lines: DialogueLine[],
+  voiceIds: string[],
+  durations: number[],
+  alignments: WordTiming[][],
+  gap: number
+): { lines: TimedDialogueLine[]; alignment: WordTiming[] } {
+  const { starts, alignment } = stitchTimings(durations, alignments, gap);
+  const timedLines = lines.map((line, i) => ({
+    ...line,
+    voiceId: voiceIds[i],
+    start: starts[i],
+    end: starts[i] + durations[i],
+  }));
+
+  return { lines: timedLines, alignment };
+}
@@ -0,0 +1,193 @@
+// Server-side ElevenLabs text to speech, with the word timings of the rendered audio, and
+// the account's voice catalogue
+
+import { WordTiming, alignScriptToTimings, charactersToWordTimings } from "./alignment";
+import {
+  applyPronunciations,
+  applyRespellings,
+  findRespellings,
+  restoreSpelling,
+} from "./pronunciation";
+import { DEFAULT_VOICE_SETTINGS, toElevenLabsVoiceSettings } from "./voiceSettings";
+import { Voice, toVoice } from "./voices";
+import { SpeechOptions, TtsProvider } from "./tts";
+
+export const DEFAULT_VOICE_ID = "21m00Tcm4TlvDq8ikWAM";
+
+// How long the voice catalogue is served from memory before asking ElevenLabs again
+const VOICE_CACHE_TTL = 10 * 60 * 1000;
+
+export interface SpeechResult {
+  audioBase64: string; // MP3
+  alignment: WordTiming[];
+}
+
+export class ElevenLabsError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "ElevenLabsError";
+  }
+}
+
+function getApiKey(): string {
+  if (!process.env.ELEVENLABS_API_KEY) {
+    throw new Error(
+      "The ELEVENLABS_API_KEY environment variable is not set. See README.md for instructions on how to set it."
+    );
+  }
+  return process.env.ELEVENLABS_API_KEY;
+}
+
+let voiceCache: { voices: Voice[]; fetchedAt: number } | null = null;
+
+// The account's voices, sorted by name. Cached for a few minutes unless a refresh is asked for.
+export async function listVoices(refresh: boolean = false): Promise<Voice[]> {
+  if (!refresh && voiceCache && Date.now() - voiceCache.fetchedAt < VOICE_CACHE_TTL) {
+    return voiceCache.voices;
+  }
+
+  const response = await fetch("https://api.elevenlabs.io/v1/voices", {
+    headers: {
+      "xi-api-key": getApiKey(),
+    },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ElevenLabsError(`ElevenLabs API error: ${response.status} ${errorText}`, response.status);
+  }
+
+  const data = await response.json();
+  const voices = (Array.isArray(data.voices) ? data.voices : [])
+    .map(toVoice)
+    .filter((voice: Voice | null): voice is Voice => voice !== null)
+    .sort((a: Voice, b: Voice) => a.name.localeCompare(b.name));
+
+  voiceCache = { voices, fetchedAt: Date.now() };
+  return voices;
+}
+
+// Create an instant voice clone from an MP3 sample, returning the new voice's ID. The
+// catalogue cache is dropped so the clone shows up straight away.
+export async function createVoiceClone(name: string, description: string, sample: Buffer): Promise<string> {
+  const form = new FormData();
+  form.append("name", name);
+  form.append("description", description);
+  form.append("remove_background_noise", "true");
+  form.append("files", new Blob([sample], { type: "audio/mpeg" }), "sample.mp3");
+
+  const response = await fetch("https://api.elevenlabs.io/v1/voices/add", {
+    method: "POST",
+    headers: {
+      "xi-api-key": getApiKey(),
+    },
+    body: form,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ElevenLabsError(`ElevenLabs API error: ${response.status} ${errorText}`, response.status);
+  }
+
+  const data = await response.json();
+  if (typeof data.voice_id !== "string") {
+    throw new Error("ElevenLabs API returned no voice ID");
+  }
+
+  voiceCache = null;
+  return data.voice_id;
+}
+
+// Delete a voice from the account, used to undo a clone whose consent record couldn't be kept
+export async function deleteVoice(voiceId: string): Promise<void> {
+  const response = await fetch(`https://api.elevenlabs.io/v1/voices/${encodeURIComponent(voiceId)}`, {
+    method: "DELETE",
+    headers: {
+      "xi-api-key": getApiKey(),
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ElevenLabsError(`ElevenLabs API error: ${response.status} ${errorText}`, response.status);
+  }
+
+  voiceCache = null;
+}
+
+// Render text with a voice. The with-timestamps endpoint returns the audio together
+// with per-character timing, which is collapsed into words spelled as in the text.
+export async function synthesizeSpeech(
+  text: string,
+  voiceId: string = DEFAULT_VOICE_ID,
+  { previousText, nextText, lexicon = [], settings = DEFAULT_VOICE_SETTINGS }: SpeechOptions = {}
+): Promise<SpeechResult> {
+  const apiKey = getApiKey();
+  const respellings = findRespellings(text, lexicon);
+  const spokenText = applyRespellings(text, respellings);
+
+  const response = await fetch(
+    `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/with-timestamps`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "xi-api-key": apiKey,
+      },
+      body: JSON.stringify({
+        text: spokenText,
+        model_id: settings.modelId,
+        voice_settings: toElevenLabsVoiceSettings(settings),
+        previous_text: previousText && applyPronunciations(previousText, lexicon),
+        next_text: nextText && applyPronunciations(nextText, lexicon),
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ElevenLabsError(`ElevenLabs API error: ${response.status} ${errorText}`, response.status);
+  }
+
+  const data = await response.json();
+
+  if (!data.audio_base64) {
+    throw new Error("ElevenLabs API returned no audio");
+  }
+
+  let alignment = charactersToWordTimings(data.alignment);
+
+  // Put the respelled terms back as written, word by word if the characters don't line up
+  if (respellings.length > 0 && alignment.length > 0) {
+    const restored = data.alignment && restoreSpelling(text, respellings, data.alignment);
+    alignment = restored
+      ? charactersToWordTimings(restored)
+      : alignScriptToTimings(text, alignment, alignment[alignment.length - 1].end);
+  }
+
+  return {
+    audioBase64: data.audio_base64,
+    alignment,
+  };
+}
+
+// Rate limits, server errors and dropped connections are worth another try; bad
+// requests and auth errors are not
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ElevenLabsError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return error instanceof TypeError;
+}
+
+export const elevenLabsProvider: TtsProvider = {
+  id: "elevenlabs",
+  defaultVoice: DEFAULT_VOICE_ID,
+  concurrency: 3,
+  async synthesize(text, voice, options) {
+    const { audioBase64, alignment } = await synthesizeSpeech(text, voice, options);
+    return { audio: Buffer.from(audioBase64, "base64"), alignment };
+  },
+  isRetryable,
+};
@@ -0,0 +1,51 @@
+// Offline text to speech with espeak-ng run as a subprocess. The voices sound robotic but
+// cost nothing and need no network, good enough to draft a video or run the pipeline in CI.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { runCommand, transcodeAudio } from "../video/ffmpeg";
+import { applyPronunciations } from "./pronunciation";
+import { DEFAULT_LOCAL_VOICE, LOCAL_VOICES } from "./ttsProviders";
+import { DEFAULT_VOICE_SETTINGS } from "./voiceSettings";
+import type { TtsProvider } from "./tts";
+
+// espeak-ng's default rate in words per minute, scaled by the voice settings' speed
+const BASE_WORDS_PER_MINUTE = 175;
+
+export function getEspeakPath(): string {
+  return process.env.ESPEAK_PATH || "espeak-ng";
+}
+
+// Read the text from a file, so long scripts never hit argument length limits
+export function buildEspeakArgs(voice: string, wordsPerMinute: number, textPath: string, outputPath: string): string[] {
+  return ["-v", voice, "-s", String(wordsPerMinute), "-w", outputPath, "-f", textPath];
+}
+
+export const localProvider: TtsProvider = {
+  id: "local",
+  defaultVoice: DEFAULT_LOCAL_VOICE,
+  concurrency: 1,
+  // espeak-ng reports no timings; callers estimate them from the audio's duration
+  async synthesize(text, voice, { lexicon = [], settings = DEFAULT_VOICE_SETTINGS } = {}) {
+    const voiceId = LOCAL_VOICES.some(option => option.id === voice) ? voice : DEFAULT_LOCAL_VOICE;
+    const tempDir = path.join(process.cwd(), "public", "temp", `local-tts-${randomUUID()}`);
+
+    try {
+      await fs.mkdir(tempDir, { recursive: true });
+
+      const textPath = path.join(tempDir, "text.txt");
+      const wavPath = path.join(tempDir, "speech.wav");
+      const mp3Path = path.join(tempDir, "speech.mp3");
+      await fs.writeFile(textPath, applyPronunciations(text, lexicon));
+
+      const wordsPerMinute = Math.round(BASE_WORDS_PER_MINUTE * settings.speed);
+      await runCommand(getEspeakPath(), buildEspeakArgs(voiceId, wordsPerMinute, textPath, wavPath), { label: "espeak-ng" });
+      await transcodeAudio(wavPath, mp3Path);
+
+      return { audio: await fs.readFile(mp3Path) };
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  },
+};
@@ -0,0 +1,70 @@
+// Voiceover pacing, applied when the paragraph clips are stitched: the silence at the edges of
+// every clip trimmed with silenceremove, a fixed pause between paragraphs and an optional
+// speed change with atempo, which keeps the pitch. Shared by the client and the stitch route.
+
+import { WordTiming } from "./alignment";
+
+export interface PacingSettings {
+  trimSilence: boolean; // Trim leading and trailing silence from every paragraph
+  threshold: number; // dB, audio quieter than this counts as silence
+  keepSilence: number; // Seconds of silence left at each trimmed edge
+  paragraphPause: number; // Seconds between paragraphs
+  tempo: number; // Speed factor, 1 for unchanged
+}
+
+export const DEFAULT_PACING: PacingSettings = {
+  trimSilence: true,
+  threshold: -50,
+  keepSilence: 0.05,
+  paragraphPause: 0.5,
+  tempo: 1,
+};
+
+export const MIN_TEMPO = 0.8;
+export const MAX_TEMPO = 1.3;
+export const MAX_PARAGRAPH_PAUSE = 2;
+export const MAX_KEEP_SILENCE = 0.5;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const numberOr = (value: any, fallback: number, min: number, max: number) =>
+  typeof value === "number" && isFinite(value) ? clamp(value, min, max) : fallback;
+
+// Validate pacing settings coming from the client, falling back to defaults
+export function normalizePacingSettings(input: any): PacingSettings {
+  return {
+    trimSilence: typeof input?.trimSilence === "boolean" ? input.trimSilence : DEFAULT_PACING.trimSilence,
+    threshold: numberOr(input?.threshold, DEFAULT_PACING.threshold, -80, -20),
+    keepSilence: numberOr(input?.keepSilence, DEFAULT_PACING.keepSilence, 0, MAX_KEEP_SILENCE),
+    paragraphPause: numberOr(input?.paragraphPause, DEFAULT_PACING.paragraphPause, 0, MAX_PARAGRAPH_PAUSE),
+    tempo: numberOr(input?.tempo, DEFAULT_PACING.tempo, MIN_TEMPO, MAX_TEMPO),
+  };
+}
+
+// silenceremove cutting the silence at the start of a recording, up to the first audio
+// louder than the threshold
+export function buildTrimStartFilter({ threshold, keepSilence }: PacingSettings): string {
+  return `silenceremove=start_periods=1:start_duration=0:start_threshold=${threshold}dB:start_silence=${keepSilence}`;
+}
+
+// The rest of a clip's pacing, run after its start was trimmed so that cut can be measured:
+// the silence at the end, trimmed by reversing the audio around the same filter, then the
+// speed change. Empty when there is nothing to do.
+export function buildPaceFilter(pacing: PacingSettings): string {
+  const filters = pacing.trimSilence ? ["areverse", buildTrimStartFilter(pacing), "areverse"] : [];
+  if (pacing.tempo !== 1) {
+    filters.push(`atempo=${pacing.tempo}`);
+  }
+  return filters.join(",");
+}
+
+// Word timings of a clip after its first `trimmed` seconds were cut and it was sped up,
+// kept within the paced clip's duration
+export function paceWordTimings(words: WordTiming[], trimmed: number, tempo: number, duration: number): WordTiming[] {
+  const move = (time: number) => clamp((time - trimmed) / tempo, 0, duration);
+
+  return words.map(word => ({
+    word: word.word,
+    start: move(word.start),
+    end: move(word.end),
+  }));
+}
@@ -0,0 +1,138 @@
+// Pronunciation lexicon: terms the voice gets wrong (product names, acronyms, jargon) and
+// how to say them. Terms are swapped for their respelling before synthesis, which works
+// with every ElevenLabs model, unlike IPA phoneme tags. The lexicon is stored by the
+// /api/pronunciations route; this module is shared with the client.
+
+import { CharacterAlignment } from "./alignment";
+
+export interface PronunciationEntry {
+  term: string; // As written in the script
+  alias: string; // Respelling the voice reads instead, e.g. "sequel" for "SQL"
+  matchCase: boolean; // Only replace the term with this exact capitalisation
+}
+
+export const MAX_PRONUNCIATION_ENTRIES = 200;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Validate a lexicon coming from the client. Entries without a term or alias are dropped,
+// and a repeated term keeps its last entry.
+export function normalizePronunciationLexicon(input: any): PronunciationEntry[] {
+  if (!Array.isArray(input)) return [];
+
+  const entries = new Map<string, PronunciationEntry>();
+
+  for (const item of input) {
+    const term = typeof item?.term === "string" ? item.term.trim().slice(0, 100) : "";
+    const alias = typeof item?.alias === "string" ? item.alias.trim().slice(0, 200) : "";
+    if (!term || !alias) continue;
+
+    const matchCase = item.matchCase === true;
+    entries.set(matchCase ? term : term.toLowerCase(), { term, alias, matchCase });
+  }
+
+  return Array.from(entries.values()).slice(0, MAX_PRONUNCIATION_ENTRIES);
+}
+
+// A term found in the text, by its position there, and the alias it is read as
+export interface Respelling {
+  start: number;
+  end: number;
+  alias: string;
+}
+
+// Find every whole-word occurrence of a lexicon term. Longer terms win, so "Next.js" is
+// found before "Next".
+export function findRespellings(text: string, lexicon: PronunciationEntry[]): Respelling[] {
+  if (lexicon.length === 0) return [];
+
+  const terms = lexicon
+    .map(entry => entry.term)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  const pattern = new RegExp(`(^|[^\\w])(${terms.join("|")})(?!\\w)`, "gi");
+  const respellings: Respelling[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const found = match[2];
+    const entry = lexicon.find(item => item.matchCase
+      ? item.term === found
+      : item.term.toLowerCase() === found.toLowerCase());
+    if (!entry) continue;
+
+    const start = match.index + match[1].length;
+    respellings.push({ start, end: start + found.length, alias: entry.alias });
+  }
+
+  return respellings;
+}
+
+// The text as the voice should read it
+export function applyRespellings(text: string, respellings: Respelling[]): string {
+  let spoken = "";
+  let position = 0;
+
+  for (const respelling of respellings) {
+    spoken += text.slice(position, respelling.start) + respelling.alias;
+    position = respelling.end;
+  }
+
+  return spoken + text.slice(position);
+}
+
+export function applyPronunciations(text: string, lexicon: PronunciationEntry[]): string {
+  return applyRespellings(text, findRespellings(text, lexicon));
+}
+
+// Character timings of audio rendered from the respelled text, turned back into timings of
+// the original text: each term takes the time its alias was spoken for, so captions and
+// subtitles never show an alias. Null when the alignment doesn't cover the respelled text.
+export function restoreSpelling(
+  text: string,
+  respellings: Respelling[],
+  spoken: CharacterAlignment
+): CharacterAlignment | null {
+  if (spoken.characters.length !== applyRespellings(text, respellings).length) return null;
+
+  const restored: CharacterAlignment = {
+    characters: [],
+    character_start_times_seconds: [],
+    character_end_times_seconds: [],
+  };
+  const push = (character: string, start: number, end: number) => {
+    restored.characters.push(character);
+    restored.character_start_times_seconds.push(start);
+    restored.character_end_times_seconds.push(end);
+  };
+
+  let position = 0;
+  let spokenIndex = 0;
+  const copyUntil = (end: number) => {
+    for (; position < end; position++, spokenIndex++) {
+      push(
+        text[position],
+        spoken.character_start_times_seconds[spokenIndex],
+        spoken.character_end_times_seconds[spokenIndex]
+      );
+    }
+  };
+
+  for (const { start, end, alias } of respellings) {
+    copyUntil(start);
+
+    const spanStart = spoken.character_start_times_seconds[spokenIndex];
+    const spanEnd = spoken.character_end_times_seconds[spokenIndex + alias.length - 1];
+    const step = (spanEnd - spanStart) / (end - start);
+
+    for (let k = 0; k < end - start; k++) {
+      push(text[start + k], spanStart + step * k, spanStart + step * (k + 1));
+    }
+
+    position = end;
+    spokenIndex += alias.length;
+  }
+
+  copyUntil(text.length);
+  return restored;
+}
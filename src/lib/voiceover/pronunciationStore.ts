@@ -0,0 +1,31 @@
+// Server-side storage of pronunciation lexicons, a JSON file per user in the data directory:
+// data/pronunciations/{userId}.json. They aren't served, only read when rendering voiceovers.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { PronunciationEntry, normalizePronunciationLexicon } from "./pronunciation";
+import { USER_ID_PATTERN } from "./voiceClones";
+
+const LEXICONS_DIR = path.join(process.cwd(), "data", "pronunciations");
+
+function lexiconPath(userId: string) {
+  if (!USER_ID_PATTERN.test(userId)) {
+    throw new Error("Invalid user ID");
+  }
+  return path.join(LEXICONS_DIR, `${userId}.json`);
+}
+
+export async function getPronunciationLexicon(userId: string): Promise<PronunciationEntry[]> {
+  try {
+    return normalizePronunciationLexicon(JSON.parse(await fs.readFile(lexiconPath(userId), "utf8")));
+  } catch (error) {
+    return [];
+  }
+}
+
+export async function savePronunciationLexicon(userId: string, entries: PronunciationEntry[]): Promise<PronunciationEntry[]> {
+  const file = lexiconPath(userId);
+  await fs.mkdir(LEXICONS_DIR, { recursive: true });
+  await fs.writeFile(file, JSON.stringify(entries, null, 2));
+  return entries;
+}
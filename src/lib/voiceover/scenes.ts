@@ -0,0 +1,138 @@
+// Scene segmentation of the voiceover for timed image generation
+
+import { WordTiming, alignScriptToTimings } from "./alignment";
+
+export type SegmentationMode = "interval" | "sentence";
+
+export interface Scene {
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+  text: string; // Words spoken during the scene
+}
+
+interface Sentence {
+  words: WordTiming[];
+  paragraphEnd: boolean;
+}
+
+const SENTENCE_END = /[.!?]["'”’)\]]*$/;
+const CLAUSE_END = /[,;:—–-]["'”’)\]]*$/;
+
+// Split the script's timed words into sentences, remembering which ones end a paragraph
+function splitSentences(script: string, words: WordTiming[]): Sentence[] {
+  // Word index after which each paragraph ends; words are in script order
+  const paragraphEnds = new Set<number>();
+  let wordCount = 0;
+  for (const paragraph of script.split(/\n\s*\n|\n/)) {
+    const count = paragraph.trim().split(/\s+/).filter(Boolean).length;
+    if (count === 0) continue;
+    wordCount += count;
+    paragraphEnds.add(wordCount - 1);
+  }
+
+  const sentences: Sentence[] = [];
+  let current: WordTiming[] = [];
+
+  words.forEach((word, i) => {
+    current.push(word);
+    const paragraphEnd = paragraphEnds.has(i);
+    if (paragraphEnd || SENTENCE_END.test(word.word) || i === words.length - 1) {
+      sentences.push({ words: current, paragraphEnd });
+      current = [];
+    }
+  });
+
+  return sentences;
+}
+
+// Break a sentence that is longer than the maximum scene length, preferring clause boundaries
+function splitLongSentence(sentence: Sentence, maxDuration: number): Sentence[] {
+  const parts: Sentence[] = [];
+  let current: WordTiming[] = [];
+  let lastClauseEnd = -1;
+
+  for (const word of sentence.words) {
+    if (current.length > 0 && word.end - current[0].start > maxDuration) {
+      const cut = lastClauseEnd >= 0 ? lastClauseEnd + 1 : current.length;
+      parts.push({ words: current.slice(0, cut), paragraphEnd: false });
+      current = current.slice(cut);
+      lastClauseEnd = -1;
+    }
+
+    current.push(word);
+    if (CLAUSE_END.test(word.word)) {
+      lastClauseEnd = current.length - 1;
+    }
+  }
+
+  if (current.length > 0) {
+    parts.push({ words: current, paragraphEnd: sentence.paragraphEnd });
+  }
+
+  return parts;
+}
+
+// Group the script's sentences into scenes between minDuration and maxDuration seconds.
+// Scenes never split a sentence unless it alone is longer than maxDuration, and a
+// paragraph break closes the scene once it is long enough. Scenes are contiguous:
+// each one lasts until the next starts, the first starts at 0 and the last ends with the audio.
+export function buildSentenceScenes(
+  script: string,
+  alignment: WordTiming[],
+  audioDuration: number,
+  minDuration: number,
+  maxDuration: number
+): Scene[] {
+  const words = alignScriptToTimings(script, alignment, audioDuration);
+  if (words.length === 0) return [];
+
+  const sentences = splitSentences(script, words).flatMap(sentence => splitLongSentence(sentence, maxDuration));
+  const groups: WordTiming[][] = [];
+  let current: WordTiming[] = [];
+
+  for (const sentence of sentences) {
+    if (current.length > 0) {
+      const combinedDuration = sentence.words[sentence.words.length - 1].end - current[0].start;
+      if (combinedDuration > maxDuration) {
+        groups.push(current);
+        current = [];
+      }
+    }
+
+    current = [...current, ...sentence.words];
+
+    const duration = current[current.length - 1].end - current[0].start;
+    if (sentence.paragraphEnd && duration >= minDuration) {
+      groups.push(current);
+      current = [];
+    }
+  }
+
+  if (current.length > 0) {
+    // Fold a short tail into the previous scene rather than flashing a final image
+    const duration = current[current.length - 1].end - current[0].start;
+    if (groups.length > 0 && duration < minDuration) {
+      groups[groups.length - 1] = [...groups[groups.length - 1], ...current];
+    } else {
+      groups.push(current);
+    }
+  }
+
+  return groups.map((group, i) => ({
+    startTime: i === 0 ? 0 : group[0].start,
+    endTime: i < groups.length - 1 ? groups[i + 1][0].start : Math.max(audioDuration, group[group.length - 1].end),
+    text: group.map(word => word.word).join(" "),
+  }));
+}
+
+// Validate scenes coming from the client
+export function normalizeScenes(input: any): Scene[] {
+  if (!Array.isArray(input)) return [];
+
+  return input.filter(scene =>
+    scene &&
+    typeof scene.startTime === "number" &&
+    typeof scene.endTime === "number" &&
+    typeof scene.text === "string"
+  );
+}
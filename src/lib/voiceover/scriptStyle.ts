@@ -0,0 +1,166 @@
+// How a script is written: tone, audience, structure, point of view and closing call to
+// action. Collected by the video idea form and turned into the generate-script system prompt.
+
+import { ScriptMode } from "./dialogue";
+
+export type ScriptTone = "educational" | "dramatic" | "humorous" | "documentary";
+export type ReadingLevel = "simple" | "general" | "advanced";
+export type ScriptStructure = "listicle" | "story_arc" | "problem_solution" | "explainer";
+export type PointOfView = "first_person" | "second_person" | "third_person";
+
+export interface ScriptStyle {
+  tone: ScriptTone;
+  audience: string; // Who the video is for, free text, empty for a general audience
+  readingLevel: ReadingLevel;
+  structure: ScriptStructure;
+  pointOfView: PointOfView;
+  callToAction: string; // What the script ends by asking viewers to do, empty for none
+}
+
+export const DEFAULT_SCRIPT_STYLE: ScriptStyle = {
+  tone: "educational",
+  audience: "",
+  readingLevel: "general",
+  structure: "story_arc",
+  pointOfView: "third_person",
+  callToAction: "",
+};
+
+export const MAX_AUDIENCE_LENGTH = 200;
+export const MAX_CALL_TO_ACTION_LENGTH = 200;
+
+interface StyleOption {
+  label: string;
+  description: string; // Shown in the form
+  instruction: string; // What the model is told
+}
+
+export const SCRIPT_TONES: Record<ScriptTone, StyleOption & { persona: string }> = {
+  educational: {
+    label: "Educational",
+    description: "Clear, accurate and easy to follow",
+    persona: "an educational video script writer who makes complex ideas clear and memorable",
+    instruction: "Teach: explain ideas clearly and accurately, with concrete examples",
+  },
+  dramatic: {
+    label: "Dramatic",
+    description: "Suspense, stakes and emotion",
+    persona: "a dramatic video script writer who builds suspense and emotional stakes",
+    instruction: "Build tension and emotion, with vivid language and moments of suspense",
+  },
+  humorous: {
+    label: "Humorous",
+    description: "Light, witty and playful",
+    persona: "a comedy video script writer with a light, witty voice",
+    instruction: "Keep it light and funny, with wit and playful observations, without losing the substance",
+  },
+  documentary: {
+    label: "Documentary",
+    description: "Measured, factual and authoritative",
+    persona: "a documentary narrator and script writer with a measured, authoritative voice",
+    instruction: "Stay measured and factual, letting details and evidence carry the story",
+  },
+};
+
+export const READING_LEVELS: Record<ReadingLevel, StyleOption> = {
+  simple: {
+    label: "Simple",
+    description: "Ages 8-12, short sentences and everyday words",
+    instruction: "Easy enough for ages 8 to 12: short sentences, everyday words, no jargon",
+  },
+  general: {
+    label: "General",
+    description: "Anyone, plain language",
+    instruction: "Plain language anyone can follow, explaining any technical terms",
+  },
+  advanced: {
+    label: "Advanced",
+    description: "Enthusiasts and experts, technical terms welcome",
+    instruction: "As for enthusiasts and experts: technical terms are fine and the basics can be skipped",
+  },
+};
+
+export const SCRIPT_STRUCTURES: Record<ScriptStructure, StyleOption> = {
+  listicle: {
+    label: "Listicle",
+    description: "A countdown or list of points",
+    instruction: "A list: a short hook, then a numbered series of distinct points, a paragraph each, then a brief wrap-up",
+  },
+  story_arc: {
+    label: "Story arc",
+    description: "Setup, rising tension, climax, resolution",
+    instruction: "A story arc: set the scene, build rising tension, reach a climax, then resolve it",
+  },
+  problem_solution: {
+    label: "Problem-solution",
+    description: "A problem, why it matters, how to solve it",
+    instruction: "Problem and solution: open with the problem, show why it matters, then walk through the solution and its payoff",
+  },
+  explainer: {
+    label: "Explainer",
+    description: "What it is, how it works, why it matters",
+    instruction: "An explainer: a question as the hook, then what it is, how it works and why it matters",
+  },
+};
+
+export const POINTS_OF_VIEW: Record<PointOfView, StyleOption> = {
+  first_person: {
+    label: "First person",
+    description: "\"I\" and \"we\", the narrator's own story",
+    instruction: "First person: the narrator speaks as \"I\" or \"we\" about their own experience",
+  },
+  second_person: {
+    label: "Second person",
+    description: "\"You\", talking to the viewer",
+    instruction: "Second person: speak directly to the viewer as \"you\"",
+  },
+  third_person: {
+    label: "Third person",
+    description: "An outside narrator",
+    instruction: "Third person: an outside narrator describes people and events",
+  },
+};
+
+const optionOr = <T extends string>(options: Record<T, unknown>, input: any, fallback: T): T =>
+  typeof input === "string" && Object.prototype.hasOwnProperty.call(options, input) ? input as T : fallback;
+
+const textOr = (input: any, maxLength: number) =>
+  typeof input === "string" ? input.trim().slice(0, maxLength) : "";
+
+// Validate a script style coming from the client, falling back to defaults
+export function normalizeScriptStyle(input: any): ScriptStyle {
+  return {
+    tone: optionOr(SCRIPT_TONES, input?.tone, DEFAULT_SCRIPT_STYLE.tone),
+    audience: textOr(input?.audience, MAX_AUDIENCE_LENGTH),
+    readingLevel: optionOr(READING_LEVELS, input?.readingLevel, DEFAULT_SCRIPT_STYLE.readingLevel),
+    structure: optionOr(SCRIPT_STRUCTURES, input?.structure, DEFAULT_SCRIPT_STYLE.structure),
+    pointOfView: optionOr(POINTS_OF_VIEW, input?.pointOfView, DEFAULT_SCRIPT_STYLE.pointOfView),
+    callToAction: textOr(input?.callToAction, MAX_CALL_TO_ACTION_LENGTH),
+  };
+}
+
+// The writer the model plays, e.g. "a comedy video script writer with a light, witty voice"
+export function getScriptPersona(style: ScriptStyle): string {
+  return SCRIPT_TONES[style.tone].persona;
+}
+
+// The style section of the generate-script system prompt, one requirement per line. A
+// dialogue's characters speak for themselves, so it has no narrator's point of view.
+export function buildScriptStyleRequirements(style: ScriptStyle, mode: ScriptMode): string[] {
+  const requirements = [
+    `Tone: ${SCRIPT_TONES[style.tone].instruction}`,
+    `Audience: ${style.audience || "a general audience"}`,
+    `Reading level: ${READING_LEVELS[style.readingLevel].instruction}`,
+    `Structure: ${SCRIPT_STRUCTURES[style.structure].instruction}`,
+  ];
+
+  if (mode === "narration") {
+    requirements.push(`Point of view: ${POINTS_OF_VIEW[style.pointOfView].instruction}`);
+  }
+
+  requirements.push(style.callToAction
+    ? `Closing: end with this call to action, phrased naturally in the script's voice: "${style.callToAction}"`
+    : "Closing: do not end with a call to action such as asking viewers to like or subscribe");
+
+  return requirements;
+}
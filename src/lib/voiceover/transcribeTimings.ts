@@ -0,0 +1,47 @@
+// Server-side forced alignment: recognise word timings in rendered speech with Deepgram
+
+import { createClient } from "@deepgram/sdk";
+import { WordTiming, alignScriptToTimings, estimateWordTimings } from "./alignment";
+
+// Transcribe the audio and return the recognised words with their timings
+export async function transcribeWordTimings(audio: Buffer): Promise<WordTiming[]> {
+  if (!process.env.DEEPGRAM_API_KEY) {
+    throw new Error("The DEEPGRAM_API_KEY environment variable is not set. See README.md for instructions on how to set it.");
+  }
+
+  const deepgram = createClient(process.env.DEEPGRAM_API_KEY);
+  const { result, error } = await deepgram.listen.prerecorded.transcribeFile(audio, {
+    model: "nova-2",
+    smart_format: true,
+    punctuate: true,
+  });
+
+  if (error) {
+    throw new Error(`Deepgram API error: ${error.message}`);
+  }
+
+  const words = result?.results?.channels?.[0]?.alternatives?.[0]?.words || [];
+  return words.map(word => ({
+    word: word.punctuated_word || word.word,
+    start: word.start,
+    end: word.end,
+  }));
+}
+
+// Word timings for the script as spoken in the audio. Falls back to an estimate
+// from the script when transcription isn't available so rendering never fails on it;
+// `estimated` tells the caller so it can say the timings are approximate.
+export async function getScriptWordTimings(
+  script: string,
+  audio: Buffer,
+  duration: number
+): Promise<{ words: WordTiming[]; estimated: boolean }> {
+  try {
+    const recognised = await transcribeWordTimings(audio);
+    console.log(`Aligned script to ${recognised.length} recognised words`);
+    return { words: alignScriptToTimings(script, recognised, duration), estimated: recognised.length === 0 };
+  } catch (error) {
+    console.error("Error aligning script to the voiceover, estimating word timings instead:", error);
+    return { words: estimateWordTimings(script, duration), estimated: true };
+  }
+}
@@ -0,0 +1,95 @@
+// Text-to-speech providers. The voiceover routes render through a TtsProvider, so a project
+// can use ElevenLabs or the offline local engine without the routes knowing which.
+
+import { WordTiming } from "./alignment";
+import { PronunciationEntry } from "./pronunciation";
+import { VoiceSettings } from "./voiceSettings";
+import { TtsProviderId } from "./ttsProviders";
+import { elevenLabsProvider } from "./elevenlabs";
+import { localProvider } from "./localTts";
+
+export interface SpeechOptions {
+  // The text around a chunk of a longer script, so its intonation carries across the joins
+  previousText?: string;
+  nextText?: string;
+  lexicon?: PronunciationEntry[]; // Respellings applied before synthesis
+  settings?: VoiceSettings; // Model and voice settings, the defaults when left out
+}
+
+export interface TtsResult {
+  audio: Buffer; // MP3
+  alignment?: WordTiming[]; // Word timings, when the engine reports them
+}
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  defaultVoice: string;
+  concurrency: number; // Requests to run at once when rendering chunks
+  synthesize(text: string, voice: string, options?: SpeechOptions): Promise<TtsResult>;
+  isRetryable?(error: unknown): boolean; // Failures worth another attempt
+}
+
+// Attempts per chunk before giving up
+export const MAX_CHUNK_ATTEMPTS = 3;
+
+const PROVIDERS: Record<TtsProviderId, TtsProvider> = {
+  elevenlabs: elevenLabsProvider,
+  local: localProvider,
+};
+
+export function getTtsProvider(id: TtsProviderId): TtsProvider {
+  return PROVIDERS[id];
+}
+
+async function synthesizeWithRetry(
+  provider: TtsProvider,
+  text: string,
+  voice: string,
+  options: SpeechOptions
+): Promise<TtsResult> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await provider.synthesize(text, voice, options);
+    } catch (error) {
+      if (attempt >= MAX_CHUNK_ATTEMPTS || !provider.isRetryable?.(error)) throw error;
+
+      const delay = 1000 * 2 ** (attempt - 1);
+      console.warn(`Speech chunk failed (attempt ${attempt}/${MAX_CHUNK_ATTEMPTS}), retrying in ${delay}ms:`, error);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Render the chunks of a script with the same voice, as many at a time as the provider
+// allows, each with its neighbours as context. The previous and next text are the context of
+// the first and last chunk, when the chunks are part of a longer script. Results are in chunk order.
+export async function synthesizeChunks(
+  provider: TtsProvider,
+  chunks: string[],
+  voice: string,
+  { previousText, nextText, lexicon, settings }: SpeechOptions = {}
+): Promise<TtsResult[]> {
+  const results: TtsResult[] = new Array(chunks.length);
+  let next = 0;
+  let failed = false; // Once a chunk has failed for good, no more are started
+
+  const worker = async () => {
+    while (!failed && next < chunks.length) {
+      const i = next++;
+      try {
+        results[i] = await synthesizeWithRetry(provider, chunks[i], voice, {
+          previousText: i > 0 ? chunks[i - 1] : previousText,
+          nextText: i < chunks.length - 1 ? chunks[i + 1] : nextText,
+          lexicon,
+          settings,
+        });
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(provider.concurrency, chunks.length) }, worker));
+  return results;
+}
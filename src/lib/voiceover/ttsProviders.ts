@@ -0,0 +1,40 @@
+// Text-to-speech engines a project can voice its script with, shared by the client and the
+// text-to-speech routes. ElevenLabs is the default; the local engine runs espeak-ng on the
+// server, for drafts that spend no credits and pipelines that run without network access.
+
+import { Voice } from "./voices";
+
+export type TtsProviderId = "elevenlabs" | "local";
+
+export const DEFAULT_TTS_PROVIDER: TtsProviderId = "elevenlabs";
+
+export const TTS_PROVIDERS: { value: TtsProviderId; label: string; description: string }[] = [
+  { value: "elevenlabs", label: "ElevenLabs", description: "Natural voices, uses credits" },
+  { value: "local", label: "Local (offline)", description: "Robotic draft voices, free and offline" },
+];
+
+export function normalizeTtsProvider(input: any): TtsProviderId {
+  return TTS_PROVIDERS.some(provider => provider.value === input) ? input : DEFAULT_TTS_PROVIDER;
+}
+
+const localVoice = (id: string, name: string, accent: string, gender: string): Voice => ({
+  id,
+  name,
+  description: `${accent.charAt(0).toUpperCase() + accent.slice(1)} ${gender}, espeak-ng`,
+  category: "local",
+  labels: { accent, gender },
+  tags: [accent, gender],
+  previewUrl: null,
+});
+
+// espeak-ng voices, a language with a voice variant
+export const LOCAL_VOICES: Voice[] = [
+  localVoice("en-us+m3", "US English (male)", "american", "male"),
+  localVoice("en-us+f3", "US English (female)", "american", "female"),
+  localVoice("en-gb+m3", "British English (male)", "british", "male"),
+  localVoice("en-gb+f2", "British English (female)", "british", "female"),
+  localVoice("en-gb-scotland+m1", "Scottish English (male)", "scottish", "male"),
+  localVoice("en-029+f4", "Caribbean English (female)", "caribbean", "female"),
+];
+
+export const DEFAULT_LOCAL_VOICE = LOCAL_VOICES[0].id;
@@ -0,0 +1,76 @@
+// Server-side storage of voice clones, per user: data/voice-clones/{userId}/{voiceId} holds
+// clone.json with the consent, and the sample the clone was made from. Neither is served.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { USER_ID_PATTERN, VoiceClone } from "./voiceClones";
+
+const VOICE_CLONES_DIR = path.join(process.cwd(), "data", "voice-clones");
+const VOICE_ID_PATTERN = /^[A-Za-z0-9]+$/;
+
+function userDir(userId: string) {
+  if (!USER_ID_PATTERN.test(userId)) {
+    throw new Error("Invalid user ID");
+  }
+  return path.join(VOICE_CLONES_DIR, userId);
+}
+
+function cloneDir(userId: string, voiceId: string) {
+  if (!VOICE_ID_PATTERN.test(voiceId)) {
+    throw new Error("Invalid voice ID");
+  }
+  return path.join(userDir(userId), voiceId);
+}
+
+async function readClones(dir: string): Promise<VoiceClone[]> {
+  let ids: string[];
+  try {
+    ids = await fs.readdir(dir);
+  } catch (error) {
+    return [];
+  }
+
+  const clones = await Promise.all(ids.filter(id => VOICE_ID_PATTERN.test(id)).map(async id => {
+    try {
+      return JSON.parse(await fs.readFile(path.join(dir, id, "clone.json"), "utf8")) as VoiceClone;
+    } catch (error) {
+      return null;
+    }
+  }));
+
+  return clones
+    .filter((clone): clone is VoiceClone => clone !== null)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function listVoiceClones(userId: string): Promise<VoiceClone[]> {
+  return readClones(userDir(userId));
+}
+
+// Every clone made through the app, whoever made it
+export async function listAllVoiceClones(): Promise<VoiceClone[]> {
+  let userIds: string[];
+  try {
+    userIds = await fs.readdir(VOICE_CLONES_DIR);
+  } catch (error) {
+    return [];
+  }
+
+  const clones = await Promise.all(userIds.filter(id => USER_ID_PATTERN.test(id)).map(listVoiceClones));
+  return clones.flat();
+}
+
+// Keep a clone's consent record and its MP3 sample
+export async function saveVoiceClone(clone: VoiceClone, sample: Buffer): Promise<VoiceClone> {
+  const dir = cloneDir(clone.userId, clone.voiceId);
+  try {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, "sample.mp3"), sample);
+    await fs.writeFile(path.join(dir, "clone.json"), JSON.stringify(clone, null, 2));
+  } catch (error) {
+    // No sample is left behind without its consent record
+    await fs.rm(dir, { recursive: true, force: true });
+    throw error;
+  }
+  return clone;
+}
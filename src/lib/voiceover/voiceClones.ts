@@ -0,0 +1,31 @@
+// Instant voice clones made from a presenter's sample. The clone lives in the ElevenLabs
+// account; the consent and the sample are kept per user by the /api/elevenlabs/voice-clones
+// route. This module is shared with the client.
+
+// Category the catalogue gives a user's own clones
+export const CUSTOM_VOICE_CATEGORY = "custom";
+
+export const VOICE_CLONE_CONSENT =
+  "I confirm this sample is my own voice, or that the speaker has given permission, and I " +
+  "consent to ElevenLabs creating a synthetic copy of it for voiceovers made with this app.";
+
+// Sample limits; ElevenLabs recommends one to two minutes of clean speech
+export const MIN_SAMPLE_SECONDS = 10;
+export const MAX_SAMPLE_BYTES = 20 * 1024 * 1024;
+
+export interface VoiceCloneConsent {
+  speakerName: string; // Whose voice the sample is
+  statement: string; // The consent text agreed to
+  agreedAt: number;
+}
+
+export interface VoiceClone {
+  voiceId: string; // ElevenLabs voice ID
+  userId: string;
+  name: string;
+  consent: VoiceCloneConsent;
+  createdAt: number;
+}
+
+// Anonymous per-browser IDs, as made by useLocalUserId
+export const USER_ID_PATTERN = /^[0-9a-f-]{36}$/;
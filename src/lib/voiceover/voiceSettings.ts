@@ -0,0 +1,63 @@
+// ElevenLabs model and voice settings shared by the VoiceoverGeneration step and the
+// text-to-speech routes
+
+export type TtsModelId = "eleven_multilingual_v2" | "eleven_turbo_v2_5" | "eleven_flash_v2_5";
+
+export const TTS_MODELS: { value: TtsModelId; label: string; description: string }[] = [
+  { value: "eleven_multilingual_v2", label: "Multilingual v2", description: "Most natural and expressive" },
+  { value: "eleven_turbo_v2_5", label: "Turbo v2.5", description: "Faster, slightly less nuanced" },
+  { value: "eleven_flash_v2_5", label: "Flash v2.5", description: "Fastest and cheapest" },
+];
+
+export interface VoiceSettings {
+  modelId: TtsModelId;
+  stability: number; // 0-1, lower reads more varied and emotional, higher more monotone
+  similarityBoost: number; // 0-1, how closely to match the original voice
+  style: number; // 0-1, style exaggeration
+  useSpeakerBoost: boolean; // Boost similarity to the speaker, a little slower
+  speed: number; // Speaking rate, 1 is normal
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  modelId: "eleven_multilingual_v2",
+  stability: 0.5,
+  similarityBoost: 0.75,
+  style: 0,
+  useSpeakerBoost: true,
+  speed: 1,
+};
+
+// Speaking rates ElevenLabs accepts
+export const MIN_SPEECH_SPEED = 0.7;
+export const MAX_SPEECH_SPEED = 1.2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const numberOr = (value: any, fallback: number, min: number, max: number) =>
+  typeof value === "number" && isFinite(value) ? clamp(value, min, max) : fallback;
+
+// Validate voice settings coming from the client, falling back to defaults
+export function normalizeVoiceSettings(input: any): VoiceSettings {
+  return {
+    modelId: TTS_MODELS.some(model => model.value === input?.modelId)
+      ? input.modelId
+      : DEFAULT_VOICE_SETTINGS.modelId,
+    stability: numberOr(input?.stability, DEFAULT_VOICE_SETTINGS.stability, 0, 1),
+    similarityBoost: numberOr(input?.similarityBoost, DEFAULT_VOICE_SETTINGS.similarityBoost, 0, 1),
+    style: numberOr(input?.style, DEFAULT_VOICE_SETTINGS.style, 0, 1),
+    useSpeakerBoost: typeof input?.useSpeakerBoost === "boolean"
+      ? input.useSpeakerBoost
+      : DEFAULT_VOICE_SETTINGS.useSpeakerBoost,
+    speed: numberOr(input?.speed, DEFAULT_VOICE_SETTINGS.speed, MIN_SPEECH_SPEED, MAX_SPEECH_SPEED),
+  };
+}
+
+// The voice_settings object of an ElevenLabs text-to-speech request
+export function toElevenLabsVoiceSettings(settings: VoiceSettings) {
+  return {
+    stability: settings.stability,
+    similarity_boost: settings.similarityBoost,
+    style: settings.style,
+    use_speaker_boost: settings.useSpeakerBoost,
+    speed: settings.speed,
+  };
+}
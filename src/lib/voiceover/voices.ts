@@ -0,0 +1,102 @@
+// The ElevenLabs voice catalogue as the app uses it: the account's voices, premade, cloned
+// and added from the voice library, listed by /api/elevenlabs/voices. Shared with the client
+// for filtering and for matching voices to a script analysis.
+
+export interface Voice {
+  id: string;
+  name: string;
+  description: string;
+  category: string; // ElevenLabs category: premade, cloned, generated, professional...
+  labels: { [label: string]: string }; // gender, age, accent, use_case, descriptive...
+  tags: string[]; // The label values, for filtering and matching
+  previewUrl: string | null; // Sample MP3 hosted by ElevenLabs
+}
+
+// The analyze-script route's recommendation
+export interface VoiceAnalysis {
+  gender?: string;
+  tone?: string[];
+  accent?: string | null;
+  qualities?: string[];
+}
+
+export const VOICE_CATEGORY_LABELS: { [category: string]: string } = {
+  custom: "Custom",
+  local: "Local",
+  premade: "Default",
+  cloned: "Cloned",
+  generated: "Designed",
+  professional: "Professional",
+  famous: "Famous",
+  high_quality: "High quality",
+};
+
+export const getCategoryLabel = (category: string) =>
+  VOICE_CATEGORY_LABELS[category] || category.replace(/_/g, " ");
+
+// A voice from the ElevenLabs voices endpoint, null when it has no ID
+export function toVoice(raw: any): Voice | null {
+  if (typeof raw?.voice_id !== "string") return null;
+
+  const labels: { [label: string]: string } = {};
+  Object.entries(raw.labels || {}).forEach(([label, value]) => {
+    if (typeof value === "string" && value.trim()) {
+      labels[label] = value.trim().toLowerCase().replace(/_/g, " ");
+    }
+  });
+
+  const summary = [labels.age, labels.accent, labels.gender].filter(Boolean).join(" ");
+  const description = typeof raw.description === "string" && raw.description.trim()
+    ? raw.description.trim()
+    : [summary, labels.description || labels.descriptive, labels.use_case].filter(Boolean).join(", ");
+
+  return {
+    id: raw.voice_id,
+    name: typeof raw.name === "string" ? raw.name : raw.voice_id,
+    description: description ? description.charAt(0).toUpperCase() + description.slice(1) : "",
+    category: typeof raw.category === "string" ? raw.category : "premade",
+    labels,
+    tags: Array.from(new Set(Object.values(labels))),
+    previewUrl: typeof raw.preview_url === "string" && raw.preview_url ? raw.preview_url : null,
+  };
+}
+
+// Distinct values of a label across the catalogue, e.g. every accent, sorted
+export function getLabelValues(voices: Voice[], label: string): string[] {
+  return Array.from(new Set(voices.map(voice => voice.labels[label]).filter(Boolean))).sort();
+}
+
+const mentions = (voice: Voice, word: string) => {
+  const target = word.toLowerCase();
+  return voice.description.toLowerCase().includes(target) || voice.tags.some(tag => tag.includes(target));
+};
+
+// Voices suiting a script analysis, best first. Gender and accent narrow the list when any
+// voice has them; tone and qualities only reorder it. The whole catalogue when nothing fits.
+export function findMatchingVoices(voices: Voice[], analysis: VoiceAnalysis | null): Voice[] {
+  if (!analysis) return [];
+
+  let matches = voices;
+
+  const gender = analysis.gender?.toLowerCase();
+  if (gender === "male" || gender === "female") {
+    matches = matches.filter(voice => voice.labels.gender
+      ? voice.labels.gender === gender
+      : new RegExp(`\\b${gender}\\b`, "i").test(voice.description));
+  }
+
+  const accent = analysis.accent?.toLowerCase();
+  if (accent) {
+    const accentMatches = matches.filter(voice =>
+      voice.labels.accent && (accent.includes(voice.labels.accent) || voice.labels.accent.includes(accent)));
+    if (accentMatches.length > 0) {
+      matches = accentMatches;
+    }
+  }
+
+  const words = [...(analysis.tone || []), ...(analysis.qualities || [])].filter(word => typeof word === "string");
+  const score = (voice: Voice) => words.filter(word => mentions(voice, word)).length;
+  matches = [...matches].sort((a, b) => score(b) - score(a));
+
+  return matches.length > 0 ? matches : voices;
+}